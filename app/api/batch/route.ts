@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import {
+  BatchInputError,
+  BatchTooLargeError,
+  enrichLeadCsv,
+  readBatchUpload,
+} from "@/lib/rapport/batch";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Enriches a lead list posted as a CSV body and answers with the enriched
+ * CSV. `?zip_column=` names the ZIP column when it is not detected. Use
+ * `/api/batch/stream` for per-row progress.
+ */
+export async function POST(request: Request) {
+  let text: string;
+  try {
+    text = await readBatchUpload(request);
+  } catch (error) {
+    if (error instanceof BatchTooLargeError) {
+      return NextResponse.json({ detail: error.message }, { status: 413 });
+    }
+    throw error;
+  }
+
+  try {
+    const { csv, summary } = await enrichLeadCsv(text, {
+      zipColumn: new URL(request.url).searchParams.get("zip_column"),
+    });
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="leads-enriched.csv"',
+        "X-Batch-Summary": JSON.stringify(summary),
+      },
+    });
+  } catch (error) {
+    if (error instanceof BatchInputError) {
+      return NextResponse.json({ detail: error.message }, { status: 400 });
+    }
+    console.error("Failed to enrich lead list:", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown upstream failure.";
+    return NextResponse.json(
+      {
+        detail: message,
+      },
+      { status: 502 }
+    );
+  }
+}
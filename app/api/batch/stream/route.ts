@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import {
+  BatchInputError,
+  BatchTooLargeError,
+  enrichLeadCsv,
+  readBatchUpload,
+} from "@/lib/rapport/batch";
+import { eventStreamResponse } from "@/lib/sse";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Streaming twin of `/api/batch`. Emits `start` with `{ rows, zips }`, one
+ * `row` event per lead as its ZIP finishes (`{ row, zip, status, error,
+ * completed }`), then `done` with `{ csv, summary }`, or `error` with
+ * `{ detail, status }` when the upload itself is unusable.
+ */
+export async function POST(request: Request) {
+  let text: string;
+  try {
+    text = await readBatchUpload(request);
+  } catch (error) {
+    if (error instanceof BatchTooLargeError) {
+      return NextResponse.json({ detail: error.message }, { status: 413 });
+    }
+    throw error;
+  }
+
+  const zipColumn = new URL(request.url).searchParams.get("zip_column");
+  return eventStreamResponse(async (send) => {
+    try {
+      const result = await enrichLeadCsv(text, {
+        zipColumn,
+        onStart: (totals) => send("start", totals),
+        onRow: (row, completed) => send("row", { ...row, completed }),
+      });
+      send("done", result);
+    } catch (error) {
+      if (error instanceof BatchInputError) {
+        send("error", { detail: error.message, status: 400 });
+      } else {
+        console.error("Failed to stream lead enrichment:", error);
+        send("error", {
+          detail: error instanceof Error ? error.message : "Unknown upstream failure.",
+          status: 502,
+        });
+      }
+    }
+  });
+}
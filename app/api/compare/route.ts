@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { compareRapports } from "@/lib/rapport/compare";
+import { UnknownPlaceError, validateZip } from "@/lib/rapport/geo";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Compares the place a borrower is leaving (`?origin=`) with the one they are
+ * moving to (`?destination=`). `origin_place` and `destination_place` pick a
+ * place within either ZIP, as `?place=` does on `/api/zip/{zip}`.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const origin = searchParams.get("origin")?.trim() ?? "";
+  const destination = searchParams.get("destination")?.trim() ?? "";
+
+  if (!validateZip(origin) || !validateZip(destination)) {
+    return NextResponse.json(
+      { detail: "Origin and destination must both be 5-digit ZIP codes." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await compareRapports(
+      { zip: origin, place: searchParams.get("origin_place")?.trim() || null },
+      { zip: destination, place: searchParams.get("destination_place")?.trim() || null }
+    );
+    if ("missing" in result) {
+      const zip = result.missing === "origin" ? origin : destination;
+      return NextResponse.json({ detail: `ZIP ${zip} not found.` }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof UnknownPlaceError) {
+      return NextResponse.json(
+        { detail: error.message, places: error.places },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to compare rapport payloads:", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown upstream failure.";
+    return NextResponse.json(
+      {
+        detail: message,
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { complianceRulesPath, loadComplianceRules } from "@/lib/rapport/compliance";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Shows the compliance rule set briefs are screened with, so an edit to the
+ * rule file can be checked before the next brief is built. `error` is set
+ * when the file on disk fails to load; the last good rules stay active.
+ */
+export async function GET() {
+  const { ruleset, error } = loadComplianceRules();
+  return NextResponse.json(
+    {
+      path: complianceRulesPath(),
+      version: ruleset?.version ?? null,
+      rules: ruleset?.file.rules ?? [],
+      error,
+    },
+    { status: ruleset ? 200 : 503 }
+  );
+}
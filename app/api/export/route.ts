@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+
+import { EXPORT_FORMATS, exportCallSheet, type ExportFormat } from "@/lib/rapport/export";
+import { parseCoordinates, UnknownPlaceError, validateZip } from "@/lib/rapport/geo";
+import { buildRapport } from "@/lib/rapport/pipeline";
+import type { RapportTarget } from "@/lib/rapport/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Exports a brief as a one-page call sheet. `?format=` is `pdf` (default),
+ * `md` or `txt`; the brief is chosen with `?zip=` (plus optional `?place=`)
+ * or `?lat=&lon=`, exactly as on `/api/zip/{zip}` and `/api/point`. Served
+ * from the same cache, so exporting a brief that was just viewed is instant.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get("format")?.trim().toLowerCase() || "pdf") as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { detail: `format must be one of ${EXPORT_FORMATS.join(", ")}.` },
+      { status: 400 }
+    );
+  }
+
+  let target: RapportTarget;
+  const zip = searchParams.get("zip")?.trim();
+  if (zip) {
+    if (!validateZip(zip)) {
+      return NextResponse.json({ detail: "ZIP code must be 5 digits." }, { status: 400 });
+    }
+    target = { zip, place: searchParams.get("place")?.trim() || null };
+  } else {
+    const point = parseCoordinates(searchParams.get("lat"), searchParams.get("lon"));
+    if (!point) {
+      return NextResponse.json(
+        { detail: "Provide a 5-digit zip or valid lat and lon." },
+        { status: 400 }
+      );
+    }
+    target = point;
+  }
+
+  try {
+    const payload = await buildRapport(target);
+    if (!payload) {
+      return NextResponse.json(
+        {
+          detail:
+            "zip" in target
+              ? `ZIP ${target.zip} not found.`
+              : `No U.S. location found at ${target.latitude}, ${target.longitude}.`,
+        },
+        { status: 404 }
+      );
+    }
+    const { body, contentType, filename } = exportCallSheet(payload, format);
+    const disposition = format === "pdf" ? "inline" : "attachment";
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `${disposition}; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnknownPlaceError) {
+      return NextResponse.json(
+        { detail: error.message, places: error.places },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to export rapport payload:", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown upstream failure.";
+    return NextResponse.json(
+      {
+        detail: message,
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+
+import { parseCoordinates } from "@/lib/rapport/geo";
+import { buildRapport } from "@/lib/rapport/pipeline";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Builds the brief for an arbitrary point (`?lat=&lon=`), typically one
+ * returned by `/api/resolve`. Local places are searched around the point
+ * itself; the containing ZIP supplies county, metro and ZIP-level context.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const point = parseCoordinates(searchParams.get("lat"), searchParams.get("lon"));
+
+  if (!point) {
+    return NextResponse.json(
+      { detail: "lat and lon must be valid coordinates." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const payload = await buildRapport(point);
+    if (!payload) {
+      return NextResponse.json(
+        { detail: `No U.S. location found at ${point.latitude}, ${point.longitude}.` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(payload);
+  } catch (error) {
+    console.error("Failed to build rapport payload:", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown upstream failure.";
+    return NextResponse.json(
+      {
+        detail: message,
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+import { parseCoordinates } from "@/lib/rapport/geo";
+import { streamRapport } from "@/lib/rapport/stream";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Streaming twin of `/api/point`, with the same events as the ZIP stream. */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const point = parseCoordinates(searchParams.get("lat"), searchParams.get("lon"));
+
+  if (!point) {
+    return NextResponse.json(
+      { detail: "lat and lon must be valid coordinates." },
+      { status: 400 }
+    );
+  }
+
+  return streamRapport(point, `No U.S. location found at ${point.latitude}, ${point.longitude}.`);
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import { resolveLocation } from "@/lib/rapport/resolve";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Geocodes free text (`?q=`) such as "Gilbert, AZ", "Agritopia Gilbert" or a
+ * street address. Each result's `target` says which brief to request:
+ * `{ zip, place }` for `/api/zip/{zip}`, or `{ latitude, longitude }` for
+ * `/api/point`. Meant for submitted searches; use `/api/resolve/suggest` for
+ * typeahead.
+ */
+export async function GET(request: Request) {
+  const query = new URL(request.url).searchParams.get("q")?.trim() ?? "";
+
+  if (query.length < 2 || query.length > 200) {
+    return NextResponse.json(
+      { detail: "Search text must be between 2 and 200 characters." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await resolveLocation(query);
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    console.error("Failed to resolve location:", error);
+    const message =
+      error instanceof Error ? error.message : "Unknown upstream failure.";
+    return NextResponse.json(
+      {
+        detail: message,
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { suggestPlaces } from "@/lib/gazetteer";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Typeahead for the search box: ZIPs and place names from the bundled
+ * gazetteer that start with `?q=`. Never calls Nominatim, whose usage policy
+ * rules out per-keystroke autocomplete.
+ */
+export async function GET(request: Request) {
+  const query = new URL(request.url).searchParams.get("q")?.trim() ?? "";
+  const suggestions = query.length > 0 && query.length <= 100 ? suggestPlaces(query) : [];
+  return NextResponse.json({ query, suggestions });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { circuitBreakerStatuses } from "@/lib/circuit-breaker";
+import { rateLimiterMetrics } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Reports how this instance is treating its upstreams: each dependency's
+ * circuit breaker, plus per-host budgets, queue depth, requests in flight and
+ * any back-off a host has asked for. State is per process and resets on
+ * restart.
+ */
+export async function GET() {
+  return NextResponse.json({
+    circuit_breakers: circuitBreakerStatuses(),
+    rate_limits: rateLimiterMetrics(),
+  });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { validateZip } from "@/lib/rapport/geo";
+import { streamRapport } from "@/lib/rapport/stream";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Streaming twin of `/api/zip/[zip]`. Emits `geo`, `strategic`, `places`,
+ * `anchors`, `summary` and per-bucket `knowledge` events as each stage
+ * finishes, then `done` with the same payload the JSON route returns, or
+ * `error` with `{ detail, status }`. Accepts the same `?place=` parameter.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { zip: string } }
+) {
+  const zip = params?.zip;
+
+  if (!zip || !validateZip(zip)) {
+    return NextResponse.json(
+      { detail: "ZIP code must be 5 digits." },
+      { status: 400 }
+    );
+  }
+
+  const place = new URL(request.url).searchParams.get("place")?.trim() || null;
+  return streamRapport({ zip, place }, `ZIP ${zip} not found.`);
+}
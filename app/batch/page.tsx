@@ -0,0 +1,292 @@
+"use client";
+
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, ArrowLeft, Download, FileSpreadsheet, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { parseCsv } from "@/lib/csv";
+import { detectZipColumn, type LeadRowResult } from "@/lib/rapport/leads";
+import { readServerSentEvents } from "@/lib/sse";
+import { cn } from "@/lib/utils";
+
+type BatchSummary = {
+  rows: number;
+  zips: number;
+  ok: number;
+  degraded: number;
+  failed: number;
+};
+
+type LeadFile = {
+  name: string;
+  text: string;
+  header: string[];
+  rows: number;
+};
+
+const apiBase =
+  process.env.NEXT_PUBLIC_BACKEND_URL?.replace(/\/$/, "") || "";
+
+const statusStyles: Record<LeadRowResult["status"], string> = {
+  ok: "text-emerald-700",
+  degraded: "text-amber-700",
+  error: "text-destructive",
+};
+
+export default function BatchPage() {
+  const [file, setFile] = useState<LeadFile | null>(null);
+  const [zipColumn, setZipColumn] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [results, setResults] = useState<LeadRowResult[]>([]);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    };
+  }, [downloadUrl]);
+
+  const sortedResults = useMemo(
+    () => [...results].sort((a, b) => a.row - b.row),
+    [results]
+  );
+
+  function reset() {
+    setError(null);
+    setTotal(0);
+    setResults([]);
+    setSummary(null);
+    setDownloadUrl(null);
+  }
+
+  async function handleFile(event: ChangeEvent<HTMLInputElement>) {
+    const selected = event.target.files?.[0];
+    reset();
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    const text = await selected.text();
+    const [header = [], ...rows] = parseCsv(text);
+    if (!header.length || !rows.length) {
+      setFile(null);
+      setError("That file needs a header row and at least one lead.");
+      return;
+    }
+    const detected = detectZipColumn(header);
+    setFile({ name: selected.name, text, header, rows: rows.length });
+    setZipColumn(detected === -1 ? "" : header[detected]);
+  }
+
+  async function handleEnrich() {
+    if (!file || !zipColumn) return;
+    reset();
+    setRunning(true);
+    setTotal(file.rows);
+    try {
+      const response = await fetch(
+        `${apiBase}/api/batch/stream?zip_column=${encodeURIComponent(zipColumn)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "text/csv", Accept: "text/event-stream" },
+          body: file.text,
+        }
+      );
+      if (!response.ok || !response.body) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.detail || "Something went wrong reaching the batch service.");
+      }
+      let finished = false;
+      for await (const { event: name, data } of readServerSentEvents(response.body)) {
+        const parsed = JSON.parse(data);
+        if (name === "error") {
+          throw new Error(parsed?.detail || "Something went wrong enriching that file.");
+        }
+        if (name === "start") {
+          setTotal(parsed.rows);
+        } else if (name === "row") {
+          setResults((current) => [...current, parsed as LeadRowResult]);
+        } else if (name === "done") {
+          finished = true;
+          setSummary(parsed.summary);
+          setDownloadUrl(
+            URL.createObjectURL(new Blob([parsed.csv], { type: "text/csv;charset=utf-8" }))
+          );
+        }
+      }
+      if (!finished) {
+        throw new Error("The batch stream ended early. Try again in a moment.");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error enriching that file.");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  const completed = results.length;
+  const percent = total ? Math.round((completed / total) * 100) : 0;
+  const enrichedName = file ? file.name.replace(/\.csv$/i, "") + "-enriched.csv" : "leads-enriched.csv";
+
+  return (
+    <main className="relative flex min-h-screen flex-col">
+      <div className="container mx-auto flex w-full max-w-4xl flex-1 flex-col gap-8 px-4 py-16">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-2 self-start text-sm text-muted-foreground hover:text-primary"
+        >
+          <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+          Back to single briefs
+        </Link>
+        <header className="space-y-3">
+          <h1 className="text-3xl font-bold leading-tight md:text-4xl">Enrich a lead list</h1>
+          <p className="text-muted-foreground">
+            Upload a CSV with a ZIP column. Every lead comes back with an opener, a bridge, a
+            discovery question, and the top local anchors.
+          </p>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <FileSpreadsheet className="h-4 w-4 text-primary" aria-hidden="true" />
+              Lead file
+            </CardTitle>
+            <CardDescription>
+              Each ZIP is briefed once, so repeated ZIPs and recent lookups come back quickly.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lead-file">CSV file</Label>
+              <input
+                id="lead-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFile}
+                disabled={running}
+                className="block w-full text-sm file:mr-4 file:rounded-md file:border-0 file:bg-primary/10 file:px-4 file:py-2 file:text-sm file:font-medium file:text-primary"
+              />
+            </div>
+            {file && (
+              <div className="flex flex-col gap-4 md:flex-row md:items-end">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="zip-column">ZIP column</Label>
+                  <select
+                    id="zip-column"
+                    value={zipColumn}
+                    onChange={(event) => setZipColumn(event.target.value)}
+                    disabled={running}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="" disabled>
+                      Choose the column with ZIP codes
+                    </option>
+                    {file.header.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    {file.name} · {file.rows.toLocaleString()} leads
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  className="md:w-44"
+                  onClick={handleEnrich}
+                  disabled={running || !zipColumn}
+                  aria-busy={running}
+                >
+                  {running ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                      Enriching...
+                    </>
+                  ) : (
+                    "Enrich leads"
+                  )}
+                </Button>
+              </div>
+            )}
+            {error && (
+              <p className="text-sm text-destructive" role="alert" aria-live="polite">
+                {error}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {(running || results.length > 0) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Progress</CardTitle>
+              <CardDescription>
+                {completed.toLocaleString()} of {total.toLocaleString()} leads
+                {summary &&
+                  ` · ${summary.ok} ready, ${summary.degraded} backup, ${summary.failed} need attention`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div
+                className="h-2 w-full overflow-hidden rounded-full bg-muted"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percent}
+              >
+                <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+              </div>
+              {downloadUrl && (
+                <Button asChild>
+                  <a href={downloadUrl} download={enrichedName}>
+                    <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+                    Download enriched CSV
+                  </a>
+                </Button>
+              )}
+              {summary && summary.failed > 0 && (
+                <p className="flex items-start gap-2 text-sm text-amber-900">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                  Rows that could not be enriched keep their original data, with the reason in the
+                  rapport_error column.
+                </p>
+              )}
+              <div className="max-h-96 overflow-y-auto rounded-lg border border-border">
+                <table className="w-full text-left text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b border-border text-xs uppercase tracking-wide text-muted-foreground">
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">ZIP</th>
+                      <th className="px-3 py-2">Status</th>
+                      <th className="px-3 py-2">Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedResults.map((result) => (
+                      <tr key={result.row} className="border-b border-border/60 last:border-0">
+                        <td className="px-3 py-2 tabular-nums">{result.row}</td>
+                        <td className="px-3 py-2 tabular-nums">{result.zip || "—"}</td>
+                        <td className={cn("px-3 py-2 font-medium", statusStyles[result.status])}>
+                          {result.status}
+                        </td>
+                        <td className="px-3 py-2 text-muted-foreground">{result.error}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
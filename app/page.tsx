@@ -1,13 +1,31 @@
 "use client";
 
-import { FormEvent, useState } from "react";
+import { FormEvent, KeyboardEvent, useEffect, useState } from "react";
+import Link from "next/link";
 import type { LucideIcon } from "lucide-react";
-import { Compass, Github, Loader2, MapPin, MessageSquare, Sparkles, Users } from "lucide-react";
+import {
+  AlertTriangle,
+  ArrowRight,
+  Compass,
+  Download,
+  FileSpreadsheet,
+  Github,
+  Loader2,
+  MapPin,
+  MessageSquare,
+  PhoneCall,
+  Search,
+  ShieldCheck,
+  Sparkles,
+  Users,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { readServerSentEvents } from "@/lib/sse";
+import { cn } from "@/lib/utils";
 
 type RapportSummary = {
   local_lifestyle_hook: string;
@@ -21,6 +39,16 @@ type LocalPlace = {
   distance_miles?: number | null;
   url?: string | null;
   summary?: string | null;
+  why_locals_go?: string | null;
+  osm_id?: string | null;
+  tier?: string;
+};
+
+type PlaceTierGroup = {
+  tier: string;
+  label: string;
+  radius_miles: number;
+  places: LocalPlace[];
 };
 
 type StrategicContext = {
@@ -51,24 +79,589 @@ type GrokAnchor = {
   category: string;
   name: string;
   summary: string;
+  verified?: boolean | null;
+  distance_miles?: number | null;
+  osm_name?: string | null;
+};
+
+type ZipLocation = {
+  neighborhood?: string | null;
+  county?: string | null;
+  cbsa_name?: string | null;
+  timezone?: string | null;
+  places?: { name: string }[];
+};
+
+type Provenance = {
+  source: "search" | "wikipedia" | "osm" | "model" | "template";
+  query: string | null;
+  osm_id: string | null;
+  url: string | null;
+  confidence: "high" | "medium" | "low";
+  model_only: boolean;
+};
+
+type BriefProvenance = {
+  summary_card: Partial<Record<keyof RapportSummary, Provenance>>;
+  knowledge_brief: Record<string, Provenance[]>;
+  grok_anchors: Provenance[];
+  strategic_context: Record<string, Provenance[]>;
+};
+
+type ComplianceReport = {
+  ruleset_version: string | null;
+  redacted: number;
+  dropped: number;
+  findings: Array<{ rule_id: string; category: string; action: string; field: string; match: string }>;
+  error: string | null;
 };
 
 type RapportResponse = {
   zip: string;
   city: string;
   state: string;
+  generated_at?: string;
+  cache_status?: "hit" | "stale" | "miss";
+  location?: ZipLocation;
+  degraded?: boolean;
+  degraded_reason?: string | null;
   summary_card: RapportSummary;
   knowledge_brief: KnowledgeBrief;
   grok_anchors: GrokAnchor[];
   raw_supporting_data: {
     strategic_context: StrategicContext;
     local_places: LocalPlace[];
+    place_tiers: PlaceTierGroup[];
   };
+  compliance?: ComplianceReport;
+  provenance?: BriefProvenance;
+};
+
+/** Which brief to stream: a ZIP (optionally one of its places) or a point. */
+type BriefTarget = { zip: string; place?: string | null } | { latitude: number; longitude: number };
+
+type Suggestion = {
+  kind: "zip" | "city";
+  zip: string;
+  city: string;
+  state: string;
+};
+
+type ResolvedMatch = {
+  label: string;
+  target: BriefTarget;
 };
 
+type RelocationComparison = {
+  distance_miles: number | null;
+  degraded?: boolean;
+  degraded_reason?: string | null;
+  shared_themes: string[];
+  contrasts: Array<{
+    bucket: string;
+    origin: string[];
+    destination: string[];
+    summary: string | null;
+  }>;
+  hooks: { miss: string[]; gain: string[] };
+  origin: RapportResponse;
+  destination: RapportResponse;
+};
+
+/** What the page knows so far; fills in as stream events arrive. */
+type BriefDraft = {
+  zip: string;
+  city?: string;
+  state?: string;
+  generated_at?: string;
+  cache_status?: RapportResponse["cache_status"];
+  location?: ZipLocation;
+  degraded?: boolean;
+  degraded_reason?: string | null;
+  summary_card?: Partial<RapportSummary>;
+  knowledge_brief?: KnowledgeBrief;
+  grok_anchors?: GrokAnchor[];
+  strategic_context?: StrategicContext;
+  local_places?: LocalPlace[];
+  place_tiers?: PlaceTierGroup[];
+  compliance?: ComplianceReport;
+  provenance?: BriefProvenance;
+};
+
+function draftFromResponse(data: RapportResponse): BriefDraft {
+  return {
+    zip: data.zip,
+    city: data.city,
+    state: data.state,
+    generated_at: data.generated_at,
+    cache_status: data.cache_status,
+    location: data.location,
+    degraded: data.degraded,
+    degraded_reason: data.degraded_reason,
+    summary_card: data.summary_card,
+    knowledge_brief: data.knowledge_brief,
+    grok_anchors: data.grok_anchors ?? [],
+    strategic_context: data.raw_supporting_data.strategic_context,
+    local_places: data.raw_supporting_data.local_places,
+    place_tiers: data.raw_supporting_data.place_tiers,
+    compliance: data.compliance,
+    provenance: data.provenance,
+  };
+}
+
+function applyStreamEvent(draft: BriefDraft, event: string, data: any): BriefDraft {
+  switch (event) {
+    case "geo":
+      return { ...draft, zip: data.zip, city: data.city, state: data.state, location: data };
+    case "strategic":
+      return { ...draft, strategic_context: data.strategic_context };
+    case "places":
+      return { ...draft, local_places: data.local_places, place_tiers: data.place_tiers };
+    case "anchors":
+      return { ...draft, grok_anchors: data.grok_anchors };
+    case "summary":
+      return { ...draft, summary_card: data.summary_card };
+    case "knowledge":
+      return {
+        ...draft,
+        knowledge_brief: { ...draft.knowledge_brief, [data.bucket]: data.sentences },
+      };
+    case "done":
+      return draftFromResponse(data as RapportResponse);
+    default:
+      return draft;
+  }
+}
+
+function describeFreshness(draft: BriefDraft) {
+  if (!draft.generated_at) return null;
+  const generated = new Date(draft.generated_at);
+  if (Number.isNaN(generated.getTime())) return null;
+  const stamp = generated.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return draft.cache_status === "stale" ? `as of ${stamp} (refreshing)` : `as of ${stamp}`;
+}
+
+// Louisiana has parishes and Alaska boroughs. Names that already say what
+// they are, such as Virginia's independent cities, and Connecticut's planning
+// regions and D.C., which aren't counties, are shown as they are.
+const COUNTY_SUFFIXES: Record<string, string> = { LA: "Parish", AK: "Borough" };
+const COUNTYLESS_STATES = new Set(["CT", "DC"]);
+const NAMED_DIVISION = /\b(county|parish|borough|census area|municipality)$|\(|^city\b/i;
+
+function countyLabel(county: string, state: string | undefined) {
+  const code = state?.toUpperCase() ?? "";
+  if (COUNTYLESS_STATES.has(code) || NAMED_DIVISION.test(county)) {
+    return county;
+  }
+  return `${county} ${COUNTY_SUFFIXES[code] ?? "County"}`;
+}
+
+function describeLocation(location: ZipLocation | undefined, state: string | undefined) {
+  if (!location) return null;
+  const parts = [
+    location.county ? countyLabel(location.county, state) : null,
+    location.cbsa_name,
+    location.timezone ? location.timezone.replace(/_/g, " ") : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : null;
+}
+
+function SkeletonLines({ lines }: { lines: number }) {
+  return (
+    <div className="space-y-2" aria-hidden="true">
+      {Array.from({ length: lines }, (_, idx) => (
+        <div
+          key={idx}
+          className={cn("h-3 animate-pulse rounded bg-muted", idx === lines - 1 ? "w-2/3" : "w-full")}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SectionSkeleton({
+  title,
+  lines,
+  className,
+}: {
+  title: string;
+  lines: number;
+  className?: string;
+}) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <SkeletonLines lines={lines} />
+      </CardContent>
+    </Card>
+  );
+}
+
 const apiBase =
   process.env.NEXT_PUBLIC_BACKEND_URL?.replace(/\/$/, "") || "";
 
+function briefStreamPath(target: BriefTarget) {
+  if ("zip" in target) {
+    const query = target.place ? `?place=${encodeURIComponent(target.place)}` : "";
+    return `/api/zip/${target.zip}/stream${query}`;
+  }
+  return `/api/point/stream?lat=${target.latitude}&lon=${target.longitude}`;
+}
+
+function exportPath(target: BriefTarget, format: "pdf" | "md" | "txt") {
+  const params = new URLSearchParams({ format });
+  if ("zip" in target) {
+    params.set("zip", target.zip);
+    if (target.place) params.set("place", target.place);
+  } else {
+    params.set("lat", String(target.latitude));
+    params.set("lon", String(target.longitude));
+  }
+  return `/api/export?${params}`;
+}
+
+const exportFormats = [
+  { format: "pdf", label: "PDF" },
+  { format: "md", label: "Markdown" },
+  { format: "txt", label: "Text" },
+] as const;
+
+function bucketLabel(bucket: string) {
+  return bucket.replace(/_/g, " ").replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+function placeName(brief: RapportResponse) {
+  return `${brief.city}, ${brief.state} ${brief.zip}`;
+}
+
+function ComparisonSide({ brief, title }: { brief: RapportResponse; title: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardDescription className="text-xs font-semibold uppercase tracking-wide">{title}</CardDescription>
+        <CardTitle className="text-base">{placeName(brief)}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="rounded-lg bg-primary/5 p-3 leading-relaxed">
+          {brief.summary_card.local_lifestyle_hook}
+        </p>
+        {brief.grok_anchors.slice(0, 3).map((anchor) => (
+          <div key={`${anchor.name}-${anchor.category}`} className="space-y-1">
+            <p className="font-medium">{anchor.name}</p>
+            <p className="leading-relaxed text-muted-foreground">{anchor.summary}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ComparisonView({ comparison }: { comparison: RelocationComparison }) {
+  const { origin, destination } = comparison;
+  return (
+    <section className="grid gap-6 md:grid-cols-2">
+      <p className="flex flex-wrap items-center gap-2 text-sm font-medium text-muted-foreground md:col-span-2">
+        {placeName(origin)}
+        <ArrowRight className="h-4 w-4" aria-label="to" />
+        {placeName(destination)}
+        {typeof comparison.distance_miles === "number" &&
+          ` · about ${comparison.distance_miles.toLocaleString()} miles apart`}
+      </p>
+      {comparison.degraded && (
+        <div
+          className="flex items-start gap-3 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 md:col-span-2"
+          role="status"
+        >
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+          <div className="space-y-1">
+            <p className="font-semibold">Backup comparison</p>
+            <p className="leading-relaxed">
+              {comparison.degraded_reason ||
+                "Our usual writer was unavailable, so this comparison comes straight from the two briefs."}
+            </p>
+          </div>
+        </div>
+      )}
+      <Card className="border-primary/30 shadow-md md:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-base text-primary">Common ground</CardTitle>
+          <CardDescription>What both places share, so the move feels familiar.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="space-y-2 text-sm leading-relaxed">
+            {comparison.shared_themes.map((theme) => (
+              <li key={theme}>{theme}</li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+      {[
+        { title: "What they'll miss", description: `Ask about life in ${origin.city}.`, hooks: comparison.hooks.miss },
+        {
+          title: "What they'll gain",
+          description: `Get them excited about ${destination.city}.`,
+          hooks: comparison.hooks.gain,
+        },
+      ].map(({ title, description, hooks }) => (
+        <Card key={title}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <PhoneCall className="h-4 w-4 text-primary" aria-hidden="true" />
+              {title}
+            </CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {hooks.map((hook) => (
+              <p key={hook} className="rounded-lg bg-primary/5 p-3 text-sm leading-relaxed">
+                {hook}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>How they differ</CardTitle>
+          <CardDescription>Side-by-side notes for the topics that change most with a move.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {comparison.contrasts.map((contrast) => (
+            <div key={contrast.bucket} className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                {bucketLabel(contrast.bucket)}
+              </p>
+              {contrast.summary && <p className="text-sm font-medium leading-relaxed">{contrast.summary}</p>}
+              <div className="grid gap-4 md:grid-cols-2">
+                {[
+                  { side: origin, sentences: contrast.origin },
+                  { side: destination, sentences: contrast.destination },
+                ].map(({ side, sentences }) => (
+                  <div key={side.zip} className="space-y-1 text-sm leading-relaxed text-muted-foreground">
+                    <p className="font-medium text-foreground">{side.city}</p>
+                    {sentences.length ? (
+                      sentences.map((sentence) => <p key={sentence}>{sentence}</p>)
+                    ) : (
+                      <p>Nothing specific came back for this one.</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+      <ComparisonSide brief={origin} title="Moving from" />
+      <ComparisonSide brief={destination} title="Moving to" />
+    </section>
+  );
+}
+
+const sourceLabels: Record<Provenance["source"], string> = {
+  search: "Web",
+  wikipedia: "Wiki",
+  osm: "Map",
+  template: "Script",
+  model: "Model only",
+};
+
+const confidenceGuidance: Record<Provenance["confidence"], string> = {
+  high: "Quoted from a source. Fine to state on a call.",
+  medium: "Paraphrased from a source. Soften it (\"I hear…\") rather than stating it as fact.",
+  low: "Nothing gathered for this brief backs it up. Verify it before saying it on a recorded call.",
+};
+
+function SourceBadge({ provenance }: { provenance?: Provenance }) {
+  if (!provenance) return null;
+  const osmUrl = provenance.osm_id
+    ? `https://www.openstreetmap.org/${provenance.osm_id}`
+    : null;
+  return (
+    <span className="group relative ml-1.5 inline-block align-middle">
+      <button
+        type="button"
+        className={cn(
+          "rounded-full border px-1.5 py-px text-[10px] font-semibold uppercase tracking-wide",
+          provenance.model_only
+            ? "border-amber-300 bg-amber-50 text-amber-800"
+            : provenance.source === "template"
+              ? "border-border bg-muted text-muted-foreground"
+              : "border-emerald-300 bg-emerald-50 text-emerald-800"
+        )}
+        aria-label={`Source: ${sourceLabels[provenance.source]}, ${provenance.confidence} confidence`}
+      >
+        {sourceLabels[provenance.source]}
+      </button>
+      <span
+        role="tooltip"
+        className="invisible absolute left-0 top-full z-20 mt-1 w-64 space-y-1 rounded-md border border-border bg-white p-3 text-xs font-normal normal-case tracking-normal text-foreground opacity-0 shadow-lg transition group-focus-within:visible group-focus-within:opacity-100 group-hover:visible group-hover:opacity-100"
+      >
+        <span className="block font-semibold">
+          {sourceLabels[provenance.source]} · {provenance.confidence} confidence
+        </span>
+        {provenance.source === "template" ? (
+          <span className="block">Standard wording, not a claim about the area.</span>
+        ) : (
+          <span className="block">{confidenceGuidance[provenance.confidence]}</span>
+        )}
+        {provenance.query && (
+          <span className="block text-muted-foreground">Search: “{provenance.query}”</span>
+        )}
+        {provenance.url && (
+          <a
+            href={provenance.url}
+            target="_blank"
+            rel="noreferrer"
+            className="block text-primary underline-offset-2 hover:underline"
+          >
+            View source
+          </a>
+        )}
+        {osmUrl && (
+          <a
+            href={osmUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="block text-primary underline-offset-2 hover:underline"
+          >
+            OpenStreetMap {provenance.osm_id}
+          </a>
+        )}
+      </span>
+    </span>
+  );
+}
+
+type SpotSort = "relevance" | "distance";
+
+function NearbySpots({ places }: { places: LocalPlace[] }) {
+  const [category, setCategory] = useState<string | null>(null);
+  const [sort, setSort] = useState<SpotSort>("relevance");
+  const categories = Array.from(
+    new Set(places.map((place) => place.category).filter((value): value is string => Boolean(value)))
+  );
+  const activeCategory = category && categories.includes(category) ? category : null;
+  const shown = places.filter((place) => !activeCategory || place.category === activeCategory);
+  if (sort === "distance") {
+    shown.sort((a, b) => (a.distance_miles ?? Infinity) - (b.distance_miles ?? Infinity));
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Search className="h-4 w-4 text-primary" />
+          Nearby spots
+        </CardTitle>
+        <CardDescription>
+          Real places from OpenStreetMap, to check the anchors against or mention by name.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {places.length === 0 ? (
+          <p className="text-muted-foreground">No mapped places came back for this area.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-1.5" role="group" aria-label="Filter by category">
+              {[null, ...categories].map((value) => (
+                <button
+                  key={value ?? "all"}
+                  type="button"
+                  aria-pressed={activeCategory === value}
+                  onClick={() => setCategory(value)}
+                  className={cn(
+                    "rounded-full border px-2.5 py-0.5 text-xs font-medium transition",
+                    activeCategory === value
+                      ? "border-primary bg-primary text-primary-foreground"
+                      : "border-border text-muted-foreground hover:border-primary/40 hover:text-primary"
+                  )}
+                >
+                  {value ?? "All"}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>Sort by</span>
+              {(["relevance", "distance"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={sort === value}
+                  onClick={() => setSort(value)}
+                  className={cn(
+                    "underline-offset-2 hover:underline",
+                    sort === value && "font-semibold text-foreground"
+                  )}
+                >
+                  {value === "relevance" ? "Best known" : "Closest"}
+                </button>
+              ))}
+            </div>
+            <ul className="space-y-3">
+              {shown.map((place) => {
+                const link =
+                  place.url || (place.osm_id ? `https://www.openstreetmap.org/${place.osm_id}` : null);
+                return (
+                  <li key={place.osm_id ?? place.name} className="space-y-1">
+                    <p className="font-medium">
+                      {link ? (
+                        <a
+                          href={link}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="underline-offset-2 hover:text-primary hover:underline"
+                        >
+                          {place.name}
+                        </a>
+                      ) : (
+                        place.name
+                      )}
+                    </p>
+                    <p className="text-xs uppercase tracking-wide text-muted-foreground">
+                      {place.category}
+                      {typeof place.distance_miles === "number" && ` · ${place.distance_miles} mi away`}
+                    </p>
+                    {place.why_locals_go && <p className="leading-relaxed">{place.why_locals_go}</p>}
+                    {place.summary && (
+                      <p className="leading-relaxed text-muted-foreground">{place.summary}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function describeSuggestion(suggestion: Suggestion) {
+  return suggestion.kind === "zip"
+    ? `${suggestion.zip} · ${suggestion.city}, ${suggestion.state}`
+    : `${suggestion.city}, ${suggestion.state}`;
+}
+
+const summaryLines: Array<{
+  key: keyof RapportSummary;
+  label: string;
+}> = [
+  { key: "local_lifestyle_hook", label: "Opener" },
+  { key: "equity_or_payment_hook", label: "Payment / equity bridge" },
+  { key: "intent_probe", label: "Discovery question" },
+];
+
 type ConversationSectionKey = Exclude<keyof StrategicContext, "city_snapshot">;
 
 const conversationSections: Array<{
@@ -194,38 +787,173 @@ const featureHighlights: Array<{
 ];
 
 export default function HomePage() {
-  const [zip, setZip] = useState("");
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const [otherMatches, setOtherMatches] = useState<ResolvedMatch[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [rapport, setRapport] = useState<RapportResponse | null>(null);
+  const [brief, setBrief] = useState<BriefDraft | null>(null);
+  const [briefTarget, setBriefTarget] = useState<BriefTarget | null>(null);
+  const [mode, setMode] = useState<"single" | "compare">("single");
+  const [origin, setOrigin] = useState("");
+  const [destination, setDestination] = useState("");
+  const [comparison, setComparison] = useState<RelocationComparison | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed || /^\d{5}$/.test(trimmed)) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `${apiBase}/api/resolve/suggest?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal }
+        );
+        const payload = response.ok ? await response.json() : null;
+        setSuggestions(Array.isArray(payload?.suggestions) ? payload.suggestions : []);
+        setActiveSuggestion(-1);
+      } catch {
+        // Typeahead is best effort; a submitted search still geocodes.
+      }
+    }, 200);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  function chooseSuggestion(suggestion: Suggestion) {
+    setQuery(describeSuggestion(suggestion));
+    setSuggestions([]);
+    setOtherMatches([]);
+    void loadBrief(
+      suggestion.kind === "zip"
+        ? { zip: suggestion.zip }
+        : { zip: suggestion.zip, place: suggestion.city }
+    );
+  }
+
+  function handleSearchKeyDown(event: KeyboardEvent<HTMLInputElement>) {
+    if (!suggestions.length) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveSuggestion((current) => (current + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" && activeSuggestion >= 0) {
+      event.preventDefault();
+      chooseSuggestion(suggestions[activeSuggestion]);
+    } else if (event.key === "Escape") {
+      setSuggestions([]);
+    }
+  }
 
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    const trimmed = zip.trim();
-    if (!/^\d{5}$/.test(trimmed)) {
-      setError("Enter a valid 5-digit U.S. ZIP code.");
-      setRapport(null);
+    const trimmed = query.trim();
+    setSuggestions([]);
+    setOtherMatches([]);
+    if (/^\d{5}$/.test(trimmed)) {
+      await loadBrief({ zip: trimmed });
+      return;
+    }
+    if (trimmed.length < 2) {
+      setError("Enter a ZIP code, city, neighborhood, or street address.");
+      setBrief(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setBrief(null);
+    let matches: ResolvedMatch[] = [];
+    try {
+      const response = await fetch(`${apiBase}/api/resolve?q=${encodeURIComponent(trimmed)}`, {
+        cache: "no-store",
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.detail || "Something went wrong looking up that place.");
+      }
+      matches = Array.isArray(payload?.results) ? payload.results : [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong looking up that place.");
+      setLoading(false);
+      return;
+    }
+    if (!matches.length) {
+      setError(`We couldn't find "${trimmed}" in the U.S. Try adding a city and state.`);
+      setLoading(false);
+      return;
+    }
+    setOtherMatches(matches.slice(1));
+    await loadBrief(matches[0].target);
+  }
+
+  async function handleCompare(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const from = origin.trim();
+    const to = destination.trim();
+    if (!/^\d{5}$/.test(from) || !/^\d{5}$/.test(to)) {
+      setError("Enter a valid 5-digit ZIP code for both places.");
+      setComparison(null);
       return;
     }
 
     setLoading(true);
     setError(null);
-    setRapport(null);
+    setComparison(null);
+    try {
+      const params = new URLSearchParams({ origin: from, destination: to });
+      const response = await fetch(`${apiBase}/api/compare?${params}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        throw new Error(payload?.detail || "Something went wrong comparing those places.");
+      }
+      setComparison(payload as RelocationComparison);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unexpected error comparing those places.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadBrief(target: BriefTarget) {
+    const initial: BriefDraft = { zip: "zip" in target ? target.zip : "" };
+    setLoading(true);
+    setError(null);
+    setBrief(initial);
+    setBriefTarget(target);
     try {
       const base = apiBase || "";
-      const response = await fetch(`${base}/api/zip/${trimmed}`, {
+      const response = await fetch(`${base}${briefStreamPath(target)}`, {
         headers: {
-          "Content-Type": "application/json",
+          Accept: "text/event-stream",
         },
         cache: "no-store",
       });
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const payload = await response.json().catch(() => null);
         const detail = payload?.detail;
         throw new Error(detail || "Something went wrong reaching the rapport service.");
       }
-      const data = (await response.json()) as RapportResponse;
-      setRapport(data);
+      let finished = false;
+      for await (const { event: name, data } of readServerSentEvents(response.body)) {
+        const parsed = JSON.parse(data);
+        if (name === "error") {
+          throw new Error(parsed?.detail || "Something went wrong reaching the rapport service.");
+        }
+        if (name === "done") {
+          finished = true;
+        }
+        setBrief((current) => applyStreamEvent(current ?? initial, name, parsed));
+      }
+      if (!finished) {
+        throw new Error("The rapport stream ended early. Try again in a moment.");
+      }
     } catch (err) {
       const message =
         err instanceof Error ? err.message : "Unexpected error fetching rapport insights.";
@@ -251,8 +979,8 @@ export default function HomePage() {
             Warm up calls with local talking points in seconds.
           </h1>
           <p className="text-lg text-muted-foreground">
-            Punch in a ZIP code and get conversation-ready hooks grounded in parks, activities, and
-            housing trends—no static scripts, only fresh intel.
+            Punch in a ZIP code, city, or neighborhood and get conversation-ready hooks grounded in
+            parks, activities, and housing trends—no static scripts, only fresh intel.
           </p>
         </header>
 
@@ -273,77 +1001,366 @@ export default function HomePage() {
           ))}
         </section>
 
-        <Card className="mx-auto w-full max-w-2xl">
-          <CardHeader>
-            <CardTitle>Find rapport for a ZIP code</CardTitle>
-            <CardDescription>We fetch live context from trusted sources in one shot.</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <form className="flex flex-col gap-4 md:flex-row md:items-end" onSubmit={handleSubmit}>
-              <div className="flex-1 space-y-2">
-                <Label htmlFor="zip">ZIP Code</Label>
-                <Input
-                  id="zip"
-                  inputMode="numeric"
-                  pattern="[0-9]*"
-                  maxLength={5}
-                  value={zip}
-                  onChange={(event) => setZip(event.target.value)}
-                  placeholder="e.g. 85260"
-                  autoComplete="postal-code"
-                  autoFocus
-                  aria-describedby="zip-helper"
-                  required
-                />
-                <p id="zip-helper" className="text-xs text-muted-foreground">
-                  Works with any U.S. ZIP code. Press enter to submit instantly.
-                </p>
-              </div>
+        <div className="mx-auto flex w-full max-w-2xl flex-wrap items-center gap-2">
+          <div className="flex gap-2" role="group" aria-label="Brief type">
+            {[
+              { value: "single" as const, label: "One place" },
+              { value: "compare" as const, label: "Relocating" },
+            ].map(({ value, label }) => (
               <Button
-                type="submit"
-                className="md:w-44"
+                key={value}
+                type="button"
+                size="sm"
+                variant={mode === value ? "default" : "outline"}
+                aria-pressed={mode === value}
                 disabled={loading}
-                aria-busy={loading}
+                onClick={() => {
+                  setMode(value);
+                  setError(null);
+                }}
               >
-                {loading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
-                    Fetching...
-                  </>
-                ) : (
-                  "Get Rapport"
-                )}
+                {label}
               </Button>
-            </form>
-            {error && (
-              <p className="mt-3 text-sm text-destructive" role="alert" aria-live="polite">
-                {error}
+            ))}
+          </div>
+          <Link
+            href="/batch"
+            className="ml-auto inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-primary"
+          >
+            <FileSpreadsheet className="h-4 w-4" aria-hidden="true" />
+            Enrich a lead list
+          </Link>
+        </div>
+
+        {mode === "single" ? (
+          <Card className="mx-auto w-full max-w-2xl">
+            <CardHeader>
+              <CardTitle>Find rapport for any place</CardTitle>
+              <CardDescription>We fetch live context from trusted sources in one shot.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form className="flex flex-col gap-4 md:flex-row md:items-end" onSubmit={handleSubmit}>
+                <div className="relative flex-1 space-y-2">
+                  <Label htmlFor="search">ZIP, city, neighborhood, or address</Label>
+                  <div className="relative">
+                    <Search
+                      className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+                      aria-hidden="true"
+                    />
+                    <Input
+                      id="search"
+                      className="pl-9"
+                      value={query}
+                      onChange={(event) => setQuery(event.target.value)}
+                      onKeyDown={handleSearchKeyDown}
+                      onBlur={() => setTimeout(() => setSuggestions([]), 150)}
+                      placeholder="e.g. 85260 or Agritopia, Gilbert AZ"
+                      autoComplete="off"
+                      autoFocus
+                      role="combobox"
+                      aria-expanded={suggestions.length > 0}
+                      aria-controls="search-suggestions"
+                      aria-activedescendant={
+                        activeSuggestion >= 0 ? `search-suggestion-${activeSuggestion}` : undefined
+                      }
+                      aria-describedby="search-helper"
+                      maxLength={200}
+                      required
+                    />
+                  </div>
+                  {suggestions.length > 0 && (
+                    <ul
+                      id="search-suggestions"
+                      role="listbox"
+                      className="absolute left-0 right-0 z-20 mt-1 overflow-hidden rounded-xl border border-border bg-white shadow-lg"
+                    >
+                      {suggestions.map((suggestion, index) => (
+                        <li
+                          key={`${suggestion.kind}-${suggestion.zip}-${suggestion.city}`}
+                          id={`search-suggestion-${index}`}
+                          role="option"
+                          aria-selected={index === activeSuggestion}
+                          className={cn(
+                            "flex cursor-pointer items-center gap-2 px-3 py-2 text-sm",
+                            index === activeSuggestion ? "bg-primary/10 text-primary" : "hover:bg-muted"
+                          )}
+                          onMouseDown={(event) => {
+                            event.preventDefault();
+                            chooseSuggestion(suggestion);
+                          }}
+                        >
+                          <MapPin className="h-4 w-4 shrink-0" aria-hidden="true" />
+                          {describeSuggestion(suggestion)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <p id="search-helper" className="text-xs text-muted-foreground">
+                    Try a ZIP, &ldquo;Gilbert, AZ&rdquo;, a neighborhood, or a street address.
+                  </p>
+                </div>
+                <Button
+                  type="submit"
+                  className="md:w-44"
+                  disabled={loading}
+                  aria-busy={loading}
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                      Fetching...
+                    </>
+                  ) : (
+                    "Get Rapport"
+                  )}
+                </Button>
+              </form>
+              {error && (
+                <p className="mt-3 text-sm text-destructive" role="alert" aria-live="polite">
+                  {error}
+                </p>
+              )}
+              {otherMatches.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Not the right spot?</span>
+                  {otherMatches.map((match) => (
+                    <Button
+                      key={match.label}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      disabled={loading}
+                      onClick={() => {
+                        setOtherMatches((current) => current.filter((item) => item !== match));
+                        void loadBrief(match.target);
+                      }}
+                    >
+                      {match.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="mx-auto w-full max-w-2xl">
+            <CardHeader>
+              <CardTitle>Compare where they live with where they&apos;re going</CardTitle>
+              <CardDescription>
+                Shared ground, key differences, and what they&apos;ll miss or gain with the move.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form className="flex flex-col gap-4 md:flex-row md:items-end" onSubmit={handleCompare}>
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="origin">Moving from (ZIP)</Label>
+                  <Input
+                    id="origin"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    maxLength={5}
+                    value={origin}
+                    onChange={(event) => setOrigin(event.target.value)}
+                    placeholder="e.g. 85260"
+                    required
+                  />
+                </div>
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="destination">Moving to (ZIP)</Label>
+                  <Input
+                    id="destination"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    maxLength={5}
+                    value={destination}
+                    onChange={(event) => setDestination(event.target.value)}
+                    placeholder="e.g. 78704"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="md:w-44" disabled={loading} aria-busy={loading}>
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                      Comparing...
+                    </>
+                  ) : (
+                    "Compare"
+                  )}
+                </Button>
+              </form>
+              {error && (
+                <p className="mt-3 text-sm text-destructive" role="alert" aria-live="polite">
+                  {error}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {mode === "compare" && comparison && <ComparisonView comparison={comparison} />}
+        {mode === "compare" && loading && (
+          <section className="grid gap-6 md:grid-cols-2" aria-busy="true">
+            <SectionSkeleton title="Moving from" lines={4} />
+            <SectionSkeleton title="Moving to" lines={4} />
+          </section>
+        )}
+
+        {mode === "single" && brief && (
+          <section className="grid gap-6 md:grid-cols-[2fr,1fr]" aria-busy={loading}>
+            {brief.city && (
+              <p className="text-sm font-medium text-muted-foreground md:col-span-2">
+                Briefing for {brief.location?.neighborhood && `${brief.location.neighborhood}, `}
+                {brief.city}, {brief.state} {brief.zip}
+                {loading && " · still gathering…"}
+                {!loading && describeFreshness(brief) && ` · ${describeFreshness(brief)}`}
+                {describeLocation(brief.location, brief.state) && (
+                  <span className="block text-xs">
+                    {describeLocation(brief.location, brief.state)}
+                  </span>
+                )}
               </p>
             )}
-          </CardContent>
-        </Card>
-
-        {rapport && (
-          <section className="grid gap-6 md:grid-cols-[2fr,1fr]">
-            {(() => {
-              const strategic = rapport.raw_supporting_data.strategic_context;
-              const snapshot = strategic.city_snapshot;
-              if (!snapshot) return null;
-              return (
-                <Card className="md:col-span-2 border-primary/20 bg-primary/5">
-                  <CardHeader>
-                    <CardTitle className="text-base text-primary">City snapshot</CardTitle>
-                    <CardDescription>
-                      A quick headline you can use to open or reinforce local knowledge.
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <p className="text-lg leading-relaxed">{snapshot}</p>
-                  </CardContent>
-                </Card>
-              );
-            })()}
-            {rapport.knowledge_brief && Object.keys(rapport.knowledge_brief).length > 0 && (
+            {!loading && !error && brief.generated_at && briefTarget && (
+              <div className="flex flex-wrap items-center gap-2 text-sm md:col-span-2">
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Download className="h-4 w-4" aria-hidden="true" />
+                  Call sheet:
+                </span>
+                {exportFormats.map(({ format, label }) => (
+                  <Button key={format} asChild size="sm" variant="outline">
+                    <a
+                      href={`${apiBase}${exportPath(briefTarget, format)}`}
+                      target={format === "pdf" ? "_blank" : undefined}
+                      rel="noreferrer"
+                    >
+                      {label}
+                    </a>
+                  </Button>
+                ))}
+              </div>
+            )}
+            {brief.city && brief.zip && (brief.location?.places?.length ?? 0) > 1 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm md:col-span-2">
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <MapPin className="h-4 w-4" aria-hidden="true" />
+                  {brief.zip} covers several places. Brief for:
+                </span>
+                {brief.location?.places?.map(({ name }) => {
+                  const selected = name === brief.city;
+                  return (
+                    <Button
+                      key={name}
+                      type="button"
+                      size="sm"
+                      variant={selected ? "default" : "outline"}
+                      disabled={loading}
+                      aria-pressed={selected}
+                      onClick={() => {
+                        if (!selected) void loadBrief({ zip: brief.zip, place: name });
+                      }}
+                    >
+                      {name}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+            {brief.degraded && (
+              <div
+                className="flex items-start gap-3 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 md:col-span-2"
+                role="status"
+              >
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                <div className="space-y-1">
+                  <p className="font-semibold">Backup brief</p>
+                  <p className="leading-relaxed">
+                    {brief.degraded_reason ||
+                      "Our usual writer was unavailable, so these notes come straight from live sources."}
+                  </p>
+                </div>
+              </div>
+            )}
+            {brief.compliance?.error && (
+              <div
+                className="flex items-start gap-3 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 md:col-span-2"
+                role="status"
+              >
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                <p className="leading-relaxed">
+                  Compliance rules could not be loaded, so this brief was not screened. Review it
+                  before using it on a call.
+                </p>
+              </div>
+            )}
+            {(brief.compliance?.findings.length ?? 0) > 0 && (
+              <details className="text-sm text-muted-foreground md:col-span-2">
+                <summary className="flex cursor-pointer items-center gap-2">
+                  <ShieldCheck className="h-4 w-4 text-emerald-700" aria-hidden="true" />
+                  Compliance screen removed {brief.compliance?.dropped} and redacted{" "}
+                  {brief.compliance?.redacted} item(s).
+                </summary>
+                <ul className="mt-2 space-y-1 pl-6 text-xs">
+                  {brief.compliance?.findings.map((finding, idx) => (
+                    <li key={`${finding.field}-${idx}`}>
+                      <span className="font-medium">{finding.rule_id}</span> ({finding.action}) in{" "}
+                      <code>{finding.field}</code>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {summaryLines.some(({ key }) => brief.summary_card?.[key]) ? (
+              <Card className="md:col-span-2 border-primary/30 shadow-md">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base text-primary">
+                    <PhoneCall className="h-4 w-4" aria-hidden="true" />
+                    Open the call
+                  </CardTitle>
+                  <CardDescription>
+                    One opener, one bridge, one question. Read these before anything else.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-3">
+                  {summaryLines.map(({ key, label }) => {
+                    const line = brief.summary_card?.[key];
+                    if (!line) return null;
+                    return (
+                      <div key={key} className="space-y-1.5 rounded-lg bg-primary/5 p-4">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                          {label}
+                        </p>
+                        <p className="text-sm leading-relaxed">
+                          {line}
+                          <SourceBadge provenance={brief.provenance?.summary_card[key]} />
+                        </p>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ) : (
+              loading && <SectionSkeleton title="Open the call" className="md:col-span-2" lines={3} />
+            )}
+            {brief.strategic_context?.city_snapshot ? (
+              <Card className="md:col-span-2 border-primary/20 bg-primary/5">
+                <CardHeader>
+                  <CardTitle className="text-base text-primary">City snapshot</CardTitle>
+                  <CardDescription>
+                    A quick headline you can use to open or reinforce local knowledge.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-lg leading-relaxed">{brief.strategic_context.city_snapshot}</p>
+                </CardContent>
+              </Card>
+            ) : (
+              loading &&
+              !brief.strategic_context && (
+                <SectionSkeleton title="City snapshot" className="md:col-span-2" lines={1} />
+              )
+            )}
+            {brief.knowledge_brief && Object.keys(brief.knowledge_brief).length > 0 ? (
               <Card className="md:col-span-2">
                 <CardHeader>
                   <CardTitle>Neighbor briefing</CardTitle>
@@ -352,7 +1369,7 @@ export default function HomePage() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="grid gap-4 md:grid-cols-2">
-                  {Object.entries(rapport.knowledge_brief).map(([bucket, sentences]) => {
+                  {Object.entries(brief.knowledge_brief).map(([bucket, sentences]) => {
                     if (!sentences || sentences.length === 0) return null;
                     const label = bucket
                       .replace(/_/g, " ")
@@ -366,113 +1383,170 @@ export default function HomePage() {
                           {sentences.map((sentence, idx) => (
                             <li key={`${bucket}-${idx}`} className="text-muted-foreground">
                               {sentence}
+                              <SourceBadge
+                                provenance={brief.provenance?.knowledge_brief[bucket]?.[idx]}
+                              />
                             </li>
                           ))}
                         </ul>
                       </div>
                     );
                   })}
+                  {loading && <SkeletonLines lines={2} />}
                 </CardContent>
               </Card>
+            ) : (
+              loading && <SectionSkeleton title="Neighbor briefing" className="md:col-span-2" lines={4} />
             )}
             <div className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-base">
-                    <MapPin className="h-4 w-4 text-primary" />
-                    Local Anchors
-                  </CardTitle>
-                  <CardDescription>
-                    Must-mention spots the LLM surfaced for quick rapport.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-5">
-                  {rapport.grok_anchors && rapport.grok_anchors.length > 0 ? (
-                    rapport.grok_anchors.map((anchor) => (
-                      <div key={`${anchor.name}-${anchor.category}`} className="space-y-1">
-                        <p className="font-medium">{anchor.name}</p>
-                        <p className="text-xs uppercase tracking-wide text-muted-foreground">
-                          {anchor.category}
-                        </p>
-                        <p className="text-sm text-muted-foreground leading-relaxed">{anchor.summary}</p>
-                      </div>
-                    ))
-                  ) : (
-                    <p className="text-sm text-muted-foreground">
-                      No anchors came back this time, but the knowledge brief still covers the area vibe.
-                    </p>
-                  )}
-                </CardContent>
-              </Card>
+              {brief.grok_anchors || !loading ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <MapPin className="h-4 w-4 text-primary" />
+                      Local Anchors
+                    </CardTitle>
+                    <CardDescription>
+                      Must-mention spots the LLM surfaced for quick rapport.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-5">
+                    {brief.grok_anchors && brief.grok_anchors.length > 0 ? (
+                      brief.grok_anchors.map((anchor, idx) => (
+                        <div key={`${anchor.name}-${anchor.category}`} className="space-y-1">
+                          <p className="font-medium">
+                            {anchor.name}
+                            <SourceBadge provenance={brief.provenance?.grok_anchors[idx]} />
+                          </p>
+                          <p className="text-xs uppercase tracking-wide text-muted-foreground">
+                            {anchor.category}
+                            {anchor.verified && typeof anchor.distance_miles === "number" &&
+                              ` · ${anchor.distance_miles} mi away`}
+                          </p>
+                          <p className="text-sm text-muted-foreground leading-relaxed">{anchor.summary}</p>
+                          {anchor.verified === false && (
+                            <p className="flex items-start gap-1.5 text-xs text-amber-800">
+                              <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" aria-hidden="true" />
+                              Not found on the map near here. Confirm it exists and is open before
+                              mentioning it.
+                            </p>
+                          )}
+                        </div>
+                      ))
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        No anchors came back this time, but the knowledge brief still covers the area vibe.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ) : (
+                <SectionSkeleton title="Local Anchors" lines={3} />
+              )}
 
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-base">
-                    <MessageSquare className="h-4 w-4 text-primary" />
-                    Conversation sparks
-                  </CardTitle>
-                  <CardDescription>
-                    Drop these nuggets in the call when you need quick rapport boosts.
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4 text-sm">
-                  {(() => {
-                    const strategic = rapport.raw_supporting_data.strategic_context;
-                    const hasSections = conversationSections.some(
-                      ({ key }) => (strategic[key] ?? []).length > 0
-                    );
-                    if (!hasSections) {
-                      return (
-                        <p className="text-muted-foreground">
-                          We didn&apos;t surface extra highlights this time, but the summary card is call-ready.
-                        </p>
+              {brief.local_places ? (
+                <NearbySpots places={brief.local_places} />
+              ) : (
+                loading && <SectionSkeleton title="Nearby spots" lines={3} />
+              )}
+
+              {brief.strategic_context ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <MessageSquare className="h-4 w-4 text-primary" />
+                      Conversation sparks
+                    </CardTitle>
+                    <CardDescription>
+                      Drop these nuggets in the call when you need quick rapport boosts.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    {(() => {
+                      const strategic = brief.strategic_context;
+                      const hasSections = conversationSections.some(
+                        ({ key }) => (strategic[key] ?? []).length > 0
                       );
-                    }
-                    return conversationSections.map(({ key, title, helper }) => {
-                      const items = strategic[key] ?? [];
-                      if (!items.length) return null;
-                      return (
-                        <div key={key} className="space-y-1.5">
+                      if (!hasSections) {
+                        return (
+                          <p className="text-muted-foreground">
+                            We didn&apos;t surface extra highlights this time, but the summary card is call-ready.
+                          </p>
+                        );
+                      }
+                      return conversationSections.map(({ key, title, helper }) => {
+                        const items = strategic[key] ?? [];
+                        if (!items.length) return null;
+                        return (
+                          <div key={key} className="space-y-1.5">
+                            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                              {title}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{helper}</p>
+                            <ul className="space-y-1.5">
+                              {items.map((item, idx) => (
+                                <li
+                                  key={`${key}-${idx}`}
+                                  className="rounded-md bg-secondary/40 px-3 py-2 leading-relaxed"
+                                >
+                                  {item}
+                                  <SourceBadge
+                                    provenance={brief.provenance?.strategic_context[key]?.[idx]}
+                                  />
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        );
+                      });
+                    })()}
+                  </CardContent>
+                </Card>
+              ) : (
+                loading && <SectionSkeleton title="Conversation sparks" lines={4} />
+              )}
+
+              {brief.place_tiers?.some((group) => group.places.length > 0) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Compass className="h-4 w-4 text-primary" />
+                      Around here
+                    </CardTitle>
+                    <CardDescription>
+                      Spots on the map near the brief&apos;s center, from a short walk to a day&apos;s drive.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    {brief.place_tiers.map((group) =>
+                      group.places.length > 0 ? (
+                        <div key={group.tier} className="space-y-1.5">
                           <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                            {title}
+                            {group.label}
+                            <span className="font-normal normal-case"> · within {group.radius_miles} mi</span>
                           </p>
-                          <p className="text-xs text-muted-foreground">{helper}</p>
                           <ul className="space-y-1.5">
-                            {items.map((item, idx) => (
+                            {group.places.map((place) => (
                               <li
-                                key={`${key}-${idx}`}
-                                className="rounded-md bg-secondary/40 px-3 py-2 leading-relaxed"
+                                key={`${group.tier}-${place.name}`}
+                                className="flex items-baseline justify-between gap-3 rounded-md bg-secondary/30 px-3 py-2"
                               >
-                                {item}
+                                <span>
+                                  <span className="font-medium">{place.name}</span>
+                                  {place.category && (
+                                    <span className="text-xs text-muted-foreground"> · {place.category}</span>
+                                  )}
+                                </span>
+                                {typeof place.distance_miles === "number" && (
+                                  <span className="shrink-0 text-xs text-muted-foreground">
+                                    {place.distance_miles} mi
+                                  </span>
+                                )}
                               </li>
                             ))}
                           </ul>
                         </div>
-                      );
-                    });
-                  })()}
-                </CardContent>
-              </Card>
-
-              {Array.isArray(rapport.raw_supporting_data.strategic_context.outdoor_showstoppers) &&
-                rapport.raw_supporting_data.strategic_context.outdoor_showstoppers.length > 0 && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-base">Within an hour</CardTitle>
-                    <CardDescription>
-                      Quick getaways and day trips neighbors mention when they hop in the car.
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-2 text-sm leading-relaxed">
-                    {rapport.raw_supporting_data.strategic_context.outdoor_showstoppers.map(
-                      (item, idx) => (
-                        <p
-                          key={`regional-${idx}`}
-                          className="rounded-md bg-secondary/30 px-3 py-2"
-                        >
-                          {item}
-                        </p>
-                      )
+                      ) : null
                     )}
                   </CardContent>
                 </Card>
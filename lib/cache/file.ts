@@ -0,0 +1,94 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+
+import type { CacheEntry, CacheStore } from "./types";
+
+type FileRecord = {
+  key: string;
+  expiresAt: number;
+  entry: CacheEntry<unknown>;
+};
+
+// How often writes also sweep the directory for expired records.
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * One JSON file per key under `directory`. Meant for local development and
+ * single-host deployments; writes go through a temp file and a rename so a
+ * crashed write never leaves half a record behind. Expired records are
+ * removed when read, and at most hourly a write sweeps out the rest, such as
+ * keys no one asks for anymore.
+ */
+export class FileStore implements CacheStore {
+  readonly name = "file";
+
+  private lastSweep = 0;
+
+  constructor(private readonly directory: string) {}
+
+  private pathFor(key: string) {
+    const digest = createHash("sha1").update(key).digest("hex");
+    const readable = key.replace(/[^a-zA-Z0-9_-]+/g, "_").slice(0, 60);
+    return path.join(this.directory, `${readable}-${digest.slice(0, 12)}.json`);
+  }
+
+  async get<T>(key: string) {
+    try {
+      const file = this.pathFor(key);
+      const record = JSON.parse(await readFile(file, "utf8")) as FileRecord;
+      if (Date.now() >= record.expiresAt) {
+        await unlink(file).catch(() => undefined);
+        return null;
+      }
+      if (record.key !== key) {
+        return null;
+      }
+      return record.entry as CacheEntry<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+        console.warn("File cache read failed:", error);
+      }
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number) {
+    const target = this.pathFor(key);
+    const record: FileRecord = { key, expiresAt: Date.now() + ttlMs, entry };
+    try {
+      await mkdir(this.directory, { recursive: true });
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temp, JSON.stringify(record), "utf8");
+      await rename(temp, target);
+    } catch (error) {
+      console.warn("File cache write failed:", error);
+    }
+    if (Date.now() - this.lastSweep >= SWEEP_INTERVAL_MS) {
+      this.lastSweep = Date.now();
+      this.sweep().catch((error) => console.warn("File cache sweep failed:", error));
+    }
+  }
+
+  // Removes expired records, and temp files left behind by a crashed write.
+  private async sweep() {
+    const now = Date.now();
+    for (const name of await readdir(this.directory)) {
+      const file = path.join(this.directory, name);
+      try {
+        if (name.endsWith(".tmp")) {
+          if (now - (await stat(file)).mtimeMs >= SWEEP_INTERVAL_MS) await unlink(file);
+        } else if (name.endsWith(".json")) {
+          const record = JSON.parse(await readFile(file, "utf8")) as FileRecord;
+          if (now >= record.expiresAt) await unlink(file);
+        }
+      } catch {
+        // Raced with another writer or reader; the next sweep gets it.
+      }
+    }
+  }
+
+  async delete(key: string) {
+    await unlink(this.pathFor(key)).catch(() => undefined);
+  }
+}
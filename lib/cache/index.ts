@@ -0,0 +1,151 @@
+import path from "path";
+
+import { FileStore } from "./file";
+import { RestKvStore } from "./kv";
+import { MemoryLruStore } from "./memory";
+import type { CacheEntry, CacheStatus, CacheStore } from "./types";
+
+export * from "./types";
+export { FileStore, MemoryLruStore, RestKvStore };
+
+export type CacheLookup<T> = {
+  value: T;
+  status: Exclude<CacheStatus, "miss">;
+  storedAt: number;
+};
+
+type TieredCacheOptions = {
+  namespace: string;
+  /**
+   * Bumped whenever the shape of stored values changes, so entries written
+   * in an older shape are never read back.
+   */
+  version?: number;
+  /** How long a value counts as fresh. */
+  ttlMs: number;
+  /** How long past `ttlMs` a value may still be served while it refreshes. */
+  staleMs: number;
+  maxEntries: number;
+  durable?: CacheStore | null;
+};
+
+/**
+ * Two-tier cache: a bounded in-process LRU in front of an optional durable
+ * store shared across instances. Reads report whether the value is fresh or
+ * stale; callers decide whether to serve stale data and refresh it.
+ */
+export class TieredCache<T> {
+  private readonly memory: MemoryLruStore;
+  private readonly durable: CacheStore | null;
+  private readonly refreshing = new Set<string>();
+
+  constructor(private readonly options: TieredCacheOptions) {
+    this.memory = new MemoryLruStore(options.maxEntries);
+    this.durable = options.durable ?? null;
+  }
+
+  private keyFor(key: string) {
+    const { namespace, version } = this.options;
+    return version ? `${namespace}:v${version}:${key}` : `${namespace}:${key}`;
+  }
+
+  private get lifetimeMs() {
+    return this.options.ttlMs + this.options.staleMs;
+  }
+
+  async read(key: string): Promise<CacheLookup<T> | null> {
+    const fullKey = this.keyFor(key);
+    let entry = await this.memory.get<T>(fullKey);
+    if (!entry && this.durable) {
+      entry = await this.durable.get<T>(fullKey);
+      if (entry) {
+        const remaining = entry.storedAt + this.lifetimeMs - Date.now();
+        if (remaining > 0) {
+          await this.memory.set(fullKey, entry, remaining);
+        }
+      }
+    }
+    if (!entry) return null;
+
+    const age = Date.now() - entry.storedAt;
+    if (age < this.options.ttlMs) {
+      return { value: entry.value, status: "hit", storedAt: entry.storedAt };
+    }
+    if (age < this.lifetimeMs) {
+      return { value: entry.value, status: "stale", storedAt: entry.storedAt };
+    }
+    return null;
+  }
+
+  async write(key: string, value: T, storedAt = Date.now()) {
+    const fullKey = this.keyFor(key);
+    const entry: CacheEntry<T> = { value, storedAt };
+    await this.memory.set(fullKey, entry, this.lifetimeMs);
+    if (this.durable) {
+      await this.durable.set(fullKey, entry, this.lifetimeMs);
+    }
+  }
+
+  async delete(key: string) {
+    const fullKey = this.keyFor(key);
+    await this.memory.delete(fullKey);
+    await this.durable?.delete(fullKey);
+  }
+
+  /**
+   * Starts `loader` without awaiting it and stores the result when
+   * `shouldStore` accepts it. Concurrent calls for the same key share one
+   * refresh.
+   */
+  refreshInBackground(
+    key: string,
+    loader: () => Promise<T | null>,
+    shouldStore: (value: T) => boolean = () => true
+  ) {
+    if (this.refreshing.has(key)) return;
+    this.refreshing.add(key);
+    loader()
+      .then((value) => (value !== null && shouldStore(value) ? this.write(key, value) : undefined))
+      .catch((error) => console.warn(`Background refresh failed for ${this.keyFor(key)}:`, error))
+      .finally(() => this.refreshing.delete(key));
+  }
+}
+
+let durableStore: CacheStore | null | undefined;
+
+/**
+ * Picks the durable tier from `CACHE_STORE` (`kv`, `file`, or `memory` for
+ * none). When unset, KV is used if `KV_REST_API_URL` is configured, the file
+ * store in development, and no durable tier otherwise.
+ */
+export function getDurableStore(env: NodeJS.ProcessEnv = process.env): CacheStore | null {
+  if (durableStore !== undefined) {
+    return durableStore;
+  }
+
+  const kvUrl = env.KV_REST_API_URL;
+  const kvToken = env.KV_REST_API_TOKEN;
+  const requested =
+    env.CACHE_STORE?.trim().toLowerCase() ||
+    (kvUrl ? "kv" : env.NODE_ENV === "production" ? "memory" : "file");
+
+  if (requested === "kv") {
+    if (kvUrl && kvToken) {
+      durableStore = new RestKvStore(kvUrl, kvToken);
+    } else {
+      console.warn("CACHE_STORE=kv requires KV_REST_API_URL and KV_REST_API_TOKEN; using memory only.");
+      durableStore = null;
+    }
+  } else if (requested === "file") {
+    durableStore = new FileStore(
+      path.resolve(env.CACHE_DIR || path.join(process.cwd(), ".cache", "rapport"))
+    );
+  } else {
+    durableStore = null;
+  }
+  return durableStore;
+}
+
+export function createTieredCache<T>(options: Omit<TieredCacheOptions, "durable">) {
+  return new TieredCache<T>({ ...options, durable: getDurableStore() });
+}
@@ -0,0 +1,69 @@
+import { fetchWithTimeout } from "@/lib/http";
+
+import type { CacheEntry, CacheStore } from "./types";
+
+/**
+ * Redis-over-HTTP tier using the Upstash REST protocol, which Vercel KV also
+ * speaks. Commands are POSTed as JSON arrays; failures degrade to a miss so
+ * the memory tier and upstream lookups keep working.
+ */
+export class RestKvStore implements CacheStore {
+  readonly name = "kv";
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+    private readonly prefix = "rapport:"
+  ) {}
+
+  private async command(args: Array<string | number>) {
+    const response = await fetchWithTimeout(
+      this.url,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(args),
+      },
+      2000
+    );
+    if (!response.ok) {
+      throw new Error(`KV responded with status ${response.status}`);
+    }
+    const json = (await response.json()) as { result?: unknown; error?: string };
+    if (json.error) {
+      throw new Error(`KV error: ${json.error}`);
+    }
+    return json.result;
+  }
+
+  async get<T>(key: string) {
+    try {
+      const result = await this.command(["GET", `${this.prefix}${key}`]);
+      return typeof result === "string" ? (JSON.parse(result) as CacheEntry<T>) : null;
+    } catch (error) {
+      console.warn("KV cache read failed:", error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number) {
+    try {
+      await this.command([
+        "SET",
+        `${this.prefix}${key}`,
+        JSON.stringify(entry),
+        "PX",
+        Math.max(1, Math.round(ttlMs)),
+      ]);
+    } catch (error) {
+      console.warn("KV cache write failed:", error);
+    }
+  }
+
+  async delete(key: string) {
+    await this.command(["DEL", `${this.prefix}${key}`]).catch(() => undefined);
+  }
+}
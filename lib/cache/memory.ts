@@ -0,0 +1,42 @@
+import type { CacheEntry, CacheStore } from "./types";
+
+/**
+ * Size-bounded in-process tier. Map iteration order doubles as recency order:
+ * reads re-insert the key and writes evict from the front once full.
+ */
+export class MemoryLruStore implements CacheStore {
+  readonly name = "memory";
+  private readonly entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get<T>(key: string) {
+    const found = this.entries.get(key);
+    if (!found) return null;
+    if (Date.now() >= found.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, found);
+    return found.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) break;
+      this.entries.delete(oldest.value);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,15 @@
+export type CacheEntry<T> = {
+  value: T;
+  /** Epoch ms when the value was produced. */
+  storedAt: number;
+};
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+/** A durable or in-memory key/value tier. Values must be JSON-serializable. */
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,196 @@
+import { DeadlineExceededError } from "@/lib/deadline";
+import { RateLimitQueueError } from "@/lib/rate-limit";
+
+export const UPSTREAMS = [
+  "zippopotam",
+  "duckduckgo",
+  "nominatim",
+  "overpass",
+  "wikipedia",
+  "llm",
+  "llm_fallback",
+] as const;
+
+export type Upstream = (typeof UPSTREAMS)[number];
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerStatus = {
+  upstream: Upstream;
+  state: CircuitState;
+  consecutive_failures: number;
+  failure_threshold: number;
+  cooldown_seconds: number;
+  /** When the breaker last opened; null while it has never tripped. */
+  opened_at: string | null;
+  /** When an open breaker will let a probe request through. */
+  retry_at: string | null;
+  last_error: string | null;
+};
+
+type BreakerSettings = {
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+/** Thrown instead of calling an upstream whose breaker is open. */
+export class CircuitOpenError extends Error {
+  constructor(readonly upstream: Upstream) {
+    super(`${upstream} is unavailable; skipping it until its circuit breaker closes.`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// Overpass and the LLM are called once or twice per brief, so they trip on
+// fewer failures and wait longer before probing.
+const DEFAULT_SETTINGS: Record<Upstream, BreakerSettings> = {
+  zippopotam: { failureThreshold: 5, cooldownMs: 30000 },
+  duckduckgo: { failureThreshold: 5, cooldownMs: 30000 },
+  nominatim: { failureThreshold: 5, cooldownMs: 30000 },
+  overpass: { failureThreshold: 3, cooldownMs: 60000 },
+  wikipedia: { failureThreshold: 5, cooldownMs: 30000 },
+  llm: { failureThreshold: 3, cooldownMs: 60000 },
+  llm_fallback: { failureThreshold: 3, cooldownMs: 60000 },
+};
+
+/**
+ * Reads `CIRCUIT_BREAKERS`, a comma-separated list of `upstream=failures` or
+ * `upstream=failures/cooldownSeconds` entries that override the defaults, e.g.
+ * `duckduckgo=10/60,llm=2`.
+ */
+export function parseBreakerSettings(value: string | undefined): Record<Upstream, BreakerSettings> {
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const entry of (value ?? "").split(",")) {
+    const match = entry.trim().match(/^([a-z_]+)\s*=\s*(\d+)(?:\s*\/\s*(\d+))?$/);
+    const upstream = match?.[1] as Upstream | undefined;
+    if (!match || !upstream || !UPSTREAMS.includes(upstream)) {
+      if (entry.trim()) console.warn(`Ignoring malformed CIRCUIT_BREAKERS entry: ${entry.trim()}`);
+      continue;
+    }
+    settings[upstream] = {
+      failureThreshold: Math.max(1, Number(match[2])),
+      cooldownMs: match[3] ? Number(match[3]) * 1000 : settings[upstream].cooldownMs,
+    };
+  }
+  return settings;
+}
+
+type RunOptions = {
+  /** Which errors count against the upstream; all do by default. */
+  isFailure?: (error: unknown) => boolean;
+};
+
+/**
+ * Closed until `failureThreshold` calls fail in a row, then open: calls are
+ * refused with `CircuitOpenError` so callers fall back at once instead of
+ * waiting out timeouts. After the cool-down one probe call is let through
+ * (half-open); its success closes the breaker and its failure reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private lastError: string | null = null;
+  private probing = false;
+
+  constructor(
+    readonly upstream: Upstream,
+    private readonly settings: BreakerSettings
+  ) {}
+
+  /** Whether a call made now would reach the upstream. */
+  get available() {
+    if (this.state === "closed") return true;
+    if (this.state === "open") return Date.now() - this.openedAt >= this.settings.cooldownMs;
+    return !this.probing;
+  }
+
+  async run<T>(task: () => Promise<T>, { isFailure = () => true }: RunOptions = {}): Promise<T> {
+    this.admit();
+    const probe = this.state === "half_open";
+    if (probe) this.probing = true;
+    try {
+      const value = await task();
+      this.recordSuccess();
+      return value;
+    } catch (error) {
+      // A long wait in our own rate-limit queue, or a request cancelled because
+      // its stage ran out of time, says nothing about the upstream.
+      if (error instanceof RateLimitQueueError || error instanceof DeadlineExceededError) {
+        throw error;
+      }
+      if (isFailure(error)) {
+        this.recordFailure(error);
+      } else if (probe) {
+        // The probe reached the upstream, which is all it needed to show.
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  status(): CircuitBreakerStatus {
+    // Report an open breaker whose cool-down has passed as ready to probe.
+    const state = this.state === "open" && this.available ? "half_open" : this.state;
+    return {
+      upstream: this.upstream,
+      state,
+      consecutive_failures: this.failures,
+      failure_threshold: this.settings.failureThreshold,
+      cooldown_seconds: Math.round(this.settings.cooldownMs / 1000),
+      opened_at: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retry_at:
+        this.state === "open" ? new Date(this.openedAt + this.settings.cooldownMs).toISOString() : null,
+      last_error: this.lastError,
+    };
+  }
+
+  private admit() {
+    if (!this.available) {
+      throw new CircuitOpenError(this.upstream);
+    }
+    if (this.state === "open") {
+      this.state = "half_open";
+    }
+  }
+
+  private recordSuccess() {
+    if (this.state !== "closed") {
+      console.info(`Circuit breaker for ${this.upstream} closed.`);
+    }
+    this.state = "closed";
+    this.failures = 0;
+  }
+
+  private recordFailure(error: unknown) {
+    this.failures += 1;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    // Calls already in flight when the breaker opened don't extend the cool-down.
+    if (this.state === "open") return;
+    if (this.state === "half_open" || this.failures >= this.settings.failureThreshold) {
+      console.warn(`Circuit breaker for ${this.upstream} opened: ${this.lastError}`);
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+const settings = parseBreakerSettings(process.env.CIRCUIT_BREAKERS);
+const breakers = Object.fromEntries(
+  UPSTREAMS.map((upstream) => [upstream, new CircuitBreaker(upstream, settings[upstream])])
+) as Record<Upstream, CircuitBreaker>;
+
+export function circuitBreaker(upstream: Upstream) {
+  return breakers[upstream];
+}
+
+export function circuitBreakerStatuses() {
+  return UPSTREAMS.map((upstream) => breakers[upstream].status());
+}
+
+/** Requests that were skipped or cancelled on purpose and need no warning. */
+export function isDeliberateSkip(error: unknown) {
+  return error instanceof CircuitOpenError || error instanceof DeadlineExceededError;
+}
@@ -0,0 +1,63 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and
+ * line breaks. Accepts LF or CRLF endings and a leading byte-order mark.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index += 1;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length) {
+    endRow();
+  }
+  return rows;
+}
+
+// Spreadsheets run cells that start with these as formulas, and the export
+// carries search and model text. Plain numbers such as "-12.5" are left alone.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?\d+(?:\.\d+)?$/;
+
+function formatField(value: string) {
+  const safe = FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function formatCsv(rows: string[][]) {
+  return rows.map((row) => row.map(formatField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,126 @@
+import { setMaxListeners } from "events";
+
+export type StageStatus = "ok" | "cut_off" | "timed_out" | "failed" | "skipped";
+
+export type StageTiming = {
+  stage: string;
+  /** Milliseconds after the deadline started that the stage began. */
+  started_ms: number;
+  duration_ms: number;
+  /** Time the stage was allowed when it started. */
+  budget_ms: number;
+  /**
+   * `cut_off` stages were signalled at their cutoff and returned what they had;
+   * `timed_out` ones did not settle in time and fell back; `skipped` ones had
+   * no budget left to start.
+   */
+  status: StageStatus;
+  error: string | null;
+};
+
+/** The abort reason for work cancelled because its stage ran out of time. */
+export class DeadlineExceededError extends Error {
+  constructor(readonly stage: string) {
+    super(`The ${stage} stage ran out of time.`);
+    this.name = "DeadlineExceededError";
+  }
+}
+
+// How long a stage may take to wind down after its signal fires before its
+// fallback is used instead.
+const STRAGGLER_GRACE_MS = 250;
+
+type StageOptions<T> = {
+  /** Most the stage may take; the deadline's remaining time also caps it. */
+  budgetMs?: number;
+  /** Time to leave on the deadline for the stages that follow. */
+  reserveMs?: number;
+  /**
+   * Value to use when the stage fails, times out, or is skipped. May rethrow.
+   * Failures are logged here; timeouts only show up in the timings.
+   */
+  fallback: (error: unknown) => T;
+};
+
+/**
+ * One wall-clock budget shared by the stages of a request. Each stage gets
+ * what is left (less any reserve for later stages) and an AbortSignal that
+ * fires at its cutoff, so it can cancel outstanding work and return whatever
+ * it has gathered. Stages that ignore the signal are abandoned shortly after.
+ */
+export class Deadline {
+  readonly startedAt = Date.now();
+  private readonly timings: StageTiming[] = [];
+
+  constructor(readonly budgetMs: number) {}
+
+  remaining(reserveMs = 0) {
+    return Math.max(0, this.startedAt + this.budgetMs - reserveMs - Date.now());
+  }
+
+  elapsed() {
+    return Date.now() - this.startedAt;
+  }
+
+  async stage<T>(
+    name: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    { budgetMs = Infinity, reserveMs = 0, fallback }: StageOptions<T>
+  ): Promise<T> {
+    const budget = Math.min(budgetMs, this.remaining(reserveMs));
+    const started = Date.now();
+    const record = (status: StageStatus, error: unknown = null) => {
+      this.timings.push({
+        stage: name,
+        started_ms: started - this.startedAt,
+        duration_ms: Date.now() - started,
+        budget_ms: Math.round(budget),
+        status,
+        error: error === null ? null : error instanceof Error ? error.message : String(error),
+      });
+    };
+
+    if (budget <= 0) {
+      const error = new DeadlineExceededError(name);
+      record("skipped", error);
+      return fallback(error);
+    }
+
+    const controller = new AbortController();
+    // Every request a stage fans out to listens on its signal.
+    setMaxListeners(100, controller.signal);
+    const cutoff = setTimeout(() => controller.abort(new DeadlineExceededError(name)), budget);
+    let straggler: ReturnType<typeof setTimeout> | undefined;
+    const abandoned = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => {
+        straggler = setTimeout(() => reject(controller.signal.reason), STRAGGLER_GRACE_MS);
+      });
+    });
+
+    try {
+      const value = await Promise.race([task(controller.signal), abandoned]);
+      record(controller.signal.aborted ? "cut_off" : "ok");
+      return value;
+    } catch (error) {
+      const timedOut = error instanceof DeadlineExceededError || controller.signal.aborted;
+      if (!timedOut) {
+        console.warn(`The ${name} stage failed:`, error);
+      }
+      record(timedOut ? "timed_out" : "failed", error);
+      return fallback(error);
+    } finally {
+      clearTimeout(cutoff);
+      clearTimeout(straggler);
+    }
+  }
+
+  report() {
+    return {
+      budget_ms: this.budgetMs,
+      elapsed_ms: this.elapsed(),
+      stages: [...this.timings],
+    };
+  }
+}
+
+export type DeadlineReport = ReturnType<Deadline["report"]>;
@@ -0,0 +1,12 @@
+export * from "./types";
+export { GazetteerUnavailableError, gazetteerPath, loadGazetteer } from "./loader";
+export {
+  findNeighborZips,
+  findZipsByPlace,
+  findZipsNear,
+  gazetteerVersion,
+  getZipRecord,
+  suggestPlaces,
+  type NearbyZip,
+  type PlaceSuggestion,
+} from "./query";
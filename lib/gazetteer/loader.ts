@@ -0,0 +1,109 @@
+import { readFileSync } from "fs";
+import path from "path";
+
+import {
+  GAZETTEER_FIELDS,
+  GAZETTEER_FORMAT_VERSION,
+  type GazetteerFile,
+  type ZipRecord,
+} from "./types";
+
+export type LoadedGazetteer = {
+  datasetVersion: string;
+  records: Map<string, ZipRecord>;
+};
+
+export function gazetteerPath(env: NodeJS.ProcessEnv = process.env) {
+  return path.resolve(
+    env.ZIP_GAZETTEER_PATH || path.join(process.cwd(), "data", "zip-gazetteer.json")
+  );
+}
+
+/** Thrown by every lookup when the dataset is missing or unreadable. */
+export class GazetteerUnavailableError extends Error {
+  constructor(
+    readonly file: string,
+    reason: string
+  ) {
+    super(`ZIP gazetteer at ${file} ${reason}. Regenerate it with npm run gazetteer:build.`);
+    this.name = "GazetteerUnavailableError";
+  }
+}
+
+let loaded: LoadedGazetteer | GazetteerUnavailableError | undefined;
+
+/**
+ * Reads the bundled dataset once per process. The dataset ships with the
+ * repo, so a missing file or one written in an incompatible format is a
+ * broken deployment: it throws `GazetteerUnavailableError` on every call
+ * rather than quietly sending every lookup to the network.
+ */
+export function loadGazetteer(): LoadedGazetteer {
+  if (loaded === undefined) {
+    loaded = readGazetteer(gazetteerPath());
+    if (loaded instanceof GazetteerUnavailableError) {
+      console.error(loaded.message);
+    }
+  }
+  if (loaded instanceof GazetteerUnavailableError) {
+    throw loaded;
+  }
+  return loaded;
+}
+
+function readGazetteer(file: string): LoadedGazetteer | GazetteerUnavailableError {
+  let parsed: GazetteerFile;
+  try {
+    parsed = JSON.parse(readFileSync(file, "utf8")) as GazetteerFile;
+  } catch (error) {
+    return new GazetteerUnavailableError(
+      file,
+      (error as NodeJS.ErrnoException)?.code === "ENOENT"
+        ? "is missing"
+        : `could not be read (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+
+  const fieldsMatch =
+    Array.isArray(parsed.fields) &&
+    parsed.fields.length === GAZETTEER_FIELDS.length &&
+    GAZETTEER_FIELDS.every((field, index) => parsed.fields[index] === field);
+  if (parsed.format_version !== GAZETTEER_FORMAT_VERSION || !fieldsMatch) {
+    return new GazetteerUnavailableError(
+      file,
+      `uses format ${parsed.format_version}; expected ${GAZETTEER_FORMAT_VERSION}`
+    );
+  }
+
+  const records = new Map<string, ZipRecord>();
+  for (const row of parsed.rows) {
+    const [
+      zip,
+      city,
+      alternateNames,
+      state,
+      county,
+      countyFips,
+      cbsaCode,
+      cbsaName,
+      timezone,
+      latitude,
+      longitude,
+    ] = row;
+    records.set(zip, {
+      zip,
+      city,
+      alternate_names: alternateNames ?? [],
+      state,
+      county,
+      county_fips: countyFips,
+      cbsa_code: cbsaCode,
+      cbsa_name: cbsaName,
+      timezone,
+      latitude,
+      longitude,
+    });
+  }
+
+  return { datasetVersion: parsed.dataset_version, records };
+}
@@ -0,0 +1,190 @@
+import { haversineMiles } from "@/lib/geo";
+
+import { loadGazetteer } from "./loader";
+import type { ZipRecord } from "./types";
+
+// Centroids bucketed into 0.5° cells so neighbor searches only scan nearby
+// cells instead of every ZIP in the country.
+const CELL_DEGREES = 0.5;
+let grid: Map<string, ZipRecord[]> | null = null;
+
+function cellKey(latitude: number, longitude: number) {
+  return `${Math.floor(latitude / CELL_DEGREES)}:${Math.floor(longitude / CELL_DEGREES)}`;
+}
+
+function spatialGrid() {
+  const gazetteer = loadGazetteer();
+  if (!grid) {
+    const cells = new Map<string, ZipRecord[]>();
+    gazetteer.records.forEach((record) => {
+      const key = cellKey(record.latitude, record.longitude);
+      const cell = cells.get(key);
+      if (cell) cell.push(record);
+      else cells.set(key, [record]);
+    });
+    grid = cells;
+  }
+  return grid;
+}
+
+export function gazetteerVersion() {
+  return loadGazetteer().datasetVersion;
+}
+
+export function getZipRecord(zip: string): ZipRecord | null {
+  return loadGazetteer().records.get(zip) ?? null;
+}
+
+export type NearbyZip = {
+  zip: string;
+  city: string;
+  distance_miles: number;
+};
+
+/** ZIPs whose centroids fall within `radiusMiles` of the given point, nearest first. */
+export function findZipsNear(
+  latitude: number,
+  longitude: number,
+  { radiusMiles = 10, limit = 8, exclude }: { radiusMiles?: number; limit?: number; exclude?: string } = {}
+): NearbyZip[] {
+  const cells = spatialGrid();
+
+  const latSpan = Math.ceil(radiusMiles / 69 / CELL_DEGREES);
+  const lonMilesPerDegree = Math.max(1, 69 * Math.cos((latitude * Math.PI) / 180));
+  const lonSpan = Math.ceil(radiusMiles / lonMilesPerDegree / CELL_DEGREES);
+  const baseLat = Math.floor(latitude / CELL_DEGREES);
+  const baseLon = Math.floor(longitude / CELL_DEGREES);
+
+  const matches: NearbyZip[] = [];
+  for (let dLat = -latSpan; dLat <= latSpan; dLat += 1) {
+    for (let dLon = -lonSpan; dLon <= lonSpan; dLon += 1) {
+      const cell = cells.get(`${baseLat + dLat}:${baseLon + dLon}`);
+      if (!cell) continue;
+      for (const record of cell) {
+        if (record.zip === exclude) continue;
+        const distance = haversineMiles(latitude, longitude, record.latitude, record.longitude);
+        if (distance <= radiusMiles) {
+          matches.push({
+            zip: record.zip,
+            city: record.city,
+            distance_miles: Math.round(distance * 10) / 10,
+          });
+        }
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.distance_miles - b.distance_miles).slice(0, limit);
+}
+
+export function findNeighborZips(zip: string, options: { radiusMiles?: number; limit?: number } = {}) {
+  const record = getZipRecord(zip);
+  if (!record) return [];
+  return findZipsNear(record.latitude, record.longitude, { ...options, exclude: zip });
+}
+
+function normalizePlace(value: string) {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/** ZIPs whose primary or alternate place name matches `place` in `state`. */
+export function findZipsByPlace(place: string, state: string): ZipRecord[] {
+  const gazetteer = loadGazetteer();
+  const target = normalizePlace(place);
+  const stateCode = state.trim().toUpperCase();
+  const matches: ZipRecord[] = [];
+  gazetteer.records.forEach((record) => {
+    if (record.state !== stateCode) return;
+    if (
+      normalizePlace(record.city) === target ||
+      record.alternate_names.some((name) => normalizePlace(name) === target)
+    ) {
+      matches.push(record);
+    }
+  });
+  return matches;
+}
+
+export type PlaceSuggestion = {
+  kind: "zip" | "city";
+  zip: string;
+  city: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  /** How many ZIPs carry this place name; used to rank bigger places first. */
+  zip_count: number;
+};
+
+type PlaceIndexEntry = PlaceSuggestion & { key: string };
+
+let placeIndex: PlaceIndexEntry[] | null = null;
+
+// One entry per "place, ST", anchored on its first ZIP and ordered by size so
+// a prefix scan returns the likeliest places first.
+function placeNameIndex() {
+  const gazetteer = loadGazetteer();
+  if (!placeIndex) {
+    const byKey = new Map<string, PlaceIndexEntry>();
+    gazetteer.records.forEach((record) => {
+      [record.city, ...record.alternate_names].forEach((name) => {
+        const key = normalizePlace(`${name} ${record.state}`);
+        const existing = byKey.get(key);
+        if (existing) {
+          existing.zip_count += 1;
+          return;
+        }
+        byKey.set(key, {
+          key,
+          kind: "city",
+          zip: record.zip,
+          city: name,
+          state: record.state,
+          latitude: record.latitude,
+          longitude: record.longitude,
+          zip_count: 1,
+        });
+      });
+    });
+    placeIndex = Array.from(byKey.values()).sort((a, b) => b.zip_count - a.zip_count);
+  }
+  return placeIndex;
+}
+
+/**
+ * Typeahead over the gazetteer: ZIP prefixes for digits, otherwise place
+ * names ("gilbert, a" matches "Gilbert, AZ"). Purely local, so it is safe to
+ * call on every keystroke.
+ */
+export function suggestPlaces(query: string, limit = 8): PlaceSuggestion[] {
+  const gazetteer = loadGazetteer();
+
+  const trimmed = query.trim();
+  if (/^\d{1,5}$/.test(trimmed)) {
+    const matches: PlaceSuggestion[] = [];
+    for (const record of Array.from(gazetteer.records.values())) {
+      if (!record.zip.startsWith(trimmed)) continue;
+      matches.push({
+        kind: "zip",
+        zip: record.zip,
+        city: record.city,
+        state: record.state,
+        latitude: record.latitude,
+        longitude: record.longitude,
+        zip_count: 1,
+      });
+      if (matches.length >= limit) break;
+    }
+    return matches;
+  }
+
+  const target = normalizePlace(trimmed);
+  if (target.length < 2) return [];
+  const matches: PlaceSuggestion[] = [];
+  for (const { key, ...suggestion } of placeNameIndex()) {
+    if (!key.startsWith(target)) continue;
+    matches.push(suggestion);
+    if (matches.length >= limit) break;
+  }
+  return matches;
+}
@@ -0,0 +1,54 @@
+export const GAZETTEER_FORMAT_VERSION = 1;
+
+/** Column order of each row in the dataset file. */
+export const GAZETTEER_FIELDS = [
+  "zip",
+  "city",
+  "alternate_names",
+  "state",
+  "county",
+  "county_fips",
+  "cbsa_code",
+  "cbsa_name",
+  "timezone",
+  "latitude",
+  "longitude",
+] as const;
+
+export type GazetteerRow = [
+  zip: string,
+  city: string,
+  alternateNames: string[],
+  state: string,
+  county: string | null,
+  countyFips: string | null,
+  cbsaCode: string | null,
+  cbsaName: string | null,
+  timezone: string | null,
+  latitude: number,
+  longitude: number,
+];
+
+export type GazetteerFile = {
+  format_version: number;
+  /** Dataset vintage, e.g. "2024.1". Bumped whenever the file is regenerated. */
+  dataset_version: string;
+  generated_at: string;
+  sources: Record<string, string>;
+  fields: string[];
+  rows: GazetteerRow[];
+};
+
+export type ZipRecord = {
+  zip: string;
+  city: string;
+  alternate_names: string[];
+  state: string;
+  county: string | null;
+  county_fips: string | null;
+  cbsa_code: string | null;
+  cbsa_name: string | null;
+  timezone: string | null;
+  latitude: number;
+  longitude: number;
+};
@@ -0,0 +1,201 @@
+import { parseRetryAfter, rateLimiterFor } from "@/lib/rate-limit";
+
+export const CONTACT_USER_AGENT =
+  process.env.OSM_USER_AGENT?.trim() || "RapportBuilder/1.0 (contact@rapportbuilder.com)";
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!items.length) {
+    return [];
+  }
+
+  const results = new Array<R>(items.length);
+  let cursor = 0;
+
+  const worker = async () => {
+    while (true) {
+      const index = cursor;
+      cursor += 1;
+      if (index >= items.length) {
+        break;
+      }
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(limit, items.length);
+  const workers = Array.from({ length: workerCount }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  errorMessage: string
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(errorMessage));
+    }, timeoutMs);
+
+    promise
+      .then((value) => {
+        clearTimeout(timer);
+        resolve(value);
+      })
+      .catch((err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+  });
+}
+
+// How long a request may wait for its host's rate-limit slot before giving up.
+const RATE_LIMIT_MAX_WAIT_MS = 30000;
+// A 429 without Retry-After still pauses the host for this long.
+const DEFAULT_THROTTLE_MS = 5000;
+// Throttled requests are retried once when the host asks for no more than this.
+const MAX_RETRY_AFTER_MS = 10000;
+
+// Hands back the response with a body that calls `detach` once it has been
+// read to the end, failed, or been cancelled.
+function detachWhenBodyEnds(response: Response, detach: () => void) {
+  if (!response.body) {
+    detach();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          detach();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        detach();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      detach();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// The caller's signal stays linked after the headers arrive, so aborting it
+// also cancels a body that is still being read. The link is dropped once the
+// body ends, since the signal usually belongs to a whole pipeline stage.
+async function fetchOnce(input: string | URL, init: RequestInit, timeoutMs: number) {
+  const { signal } = init;
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeoutMs);
+  const forwardAbort = () => controller.abort(signal?.reason);
+  const detach = () => signal?.removeEventListener("abort", forwardAbort);
+  signal?.addEventListener("abort", forwardAbort, { once: true });
+  try {
+    const response = await fetch(input, {
+      ...init,
+      signal: controller.signal,
+    });
+    return detachWhenBodyEnds(response, detach);
+  } catch (error) {
+    detach();
+    throw signal?.aborted ? signal.reason : error;
+  } finally {
+    clearTimeout(id);
+  }
+}
+
+/**
+ * Fetches through the shared per-host rate limiter (see `lib/rate-limit.ts`).
+ * The timeout starts once the request leaves the queue. An `init.signal`
+ * cancels the request whether it is queued or in flight, and its abort reason
+ * is what gets thrown. A 429, or a 503 with `Retry-After`, pauses every
+ * request to that host; the throttled request is retried once when the pause
+ * is short, otherwise the response is returned.
+ */
+export async function fetchWithTimeout(
+  input: string | URL,
+  init: RequestInit = {},
+  timeoutMs = 8000
+) {
+  const limiter = rateLimiterFor(new URL(input).host);
+  for (let attempt = 0; ; attempt += 1) {
+    const release = await limiter.acquire(RATE_LIMIT_MAX_WAIT_MS, init.signal);
+    let response: Response;
+    try {
+      response = await fetchOnce(input, init, timeoutMs);
+    } finally {
+      release();
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    const throttled = response.status === 429 || (response.status === 503 && retryAfter !== null);
+    if (!throttled) {
+      return response;
+    }
+    const pauseMs = retryAfter ?? DEFAULT_THROTTLE_MS;
+    limiter.pause(pauseMs);
+    console.warn(`${limiter.host} throttled us (${response.status}); pausing ${Math.ceil(pauseMs / 1000)}s.`);
+    if (attempt > 0 || pauseMs > MAX_RETRY_AFTER_MS) {
+      return response;
+    }
+    await response.body?.cancel().catch(() => undefined);
+  }
+}
+
+export async function readErrorPreview(response: Response, maxLength = 500) {
+  return response
+    .text()
+    .then((text) => text.slice(0, maxLength))
+    .catch(() => "");
+}
+
+export function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+type RetryOptions = {
+  attempts: number;
+  baseDelayMs: number;
+  shouldRetry?: (error: unknown) => boolean;
+};
+
+/**
+ * Runs `task` up to `attempts` times, doubling the delay (with a little
+ * jitter) between tries. Errors rejected by `shouldRetry` are rethrown
+ * immediately.
+ */
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  { attempts, baseDelayMs, shouldRetry = () => true }: RetryOptions
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < Math.max(1, attempts); attempt += 1) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      lastError = error;
+      if (attempt >= attempts - 1 || !shouldRetry(error)) {
+        break;
+      }
+      const delay = baseDelayMs * 2 ** attempt;
+      await sleep(delay + Math.round(Math.random() * delay * 0.25));
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,140 @@
+import { fetchWithTimeout, readErrorPreview } from "@/lib/http";
+import { readServerSentEvents } from "@/lib/sse";
+
+import { resolveEndpoint } from "./endpoint";
+import {
+  LlmConfigurationError,
+  type ChatMessage,
+  type LlmCompletionOptions,
+  type LlmProvider,
+  type LlmProviderConfig,
+} from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Messages-API client. System prompts travel in the top-level `system`
+ * field rather than as a message, and the reply arrives as content blocks.
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly kind = "anthropic" as const;
+  readonly model: string;
+  readonly defaults: LlmCompletionOptions;
+  private readonly apiKey?: string;
+  private readonly baseUrl: string;
+  private readonly apiPath: string;
+
+  constructor(config: LlmProviderConfig) {
+    this.model = config.model;
+    this.defaults = config.defaults;
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl || "https://api.anthropic.com";
+    this.apiPath = config.apiPath || "/v1/messages";
+  }
+
+  private async send(
+    messages: ChatMessage[],
+    options: Partial<LlmCompletionOptions>,
+    stream: boolean
+  ) {
+    if (!this.apiKey) {
+      throw new LlmConfigurationError("LLM_API_KEY is not configured for the anthropic provider.");
+    }
+    const settings = { ...this.defaults, ...options };
+    const endpoint = resolveEndpoint(this.baseUrl, this.apiPath, "LLM");
+
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    const conversation = messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({ role: message.role, content: message.content }));
+
+    let response;
+    try {
+      response = await fetchWithTimeout(
+        endpoint,
+        {
+          method: "POST",
+          headers: {
+            "x-api-key": this.apiKey,
+            "anthropic-version": ANTHROPIC_VERSION,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model: this.model,
+            system: system || undefined,
+            messages: conversation,
+            temperature: settings.temperature,
+            max_tokens: settings.maxTokens,
+            ...(stream ? { stream: true } : {}),
+          }),
+          signal: settings.signal,
+        },
+        settings.timeoutMs
+      );
+    } catch (error) {
+      if (settings.signal?.aborted) {
+        throw settings.signal.reason;
+      }
+      console.warn("LLM request aborted or failed:", error);
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "LLM request failed before a response was returned."
+      );
+    }
+
+    if (!response.ok) {
+      const errorPreview = await readErrorPreview(response);
+      console.warn(
+        `LLM response status ${response.status} (POST ${endpoint})${
+          errorPreview ? `: ${errorPreview}` : ""
+        }`
+      );
+      throw new Error(
+        errorPreview
+          ? `LLM responded with status ${response.status}: ${errorPreview}`
+          : `LLM responded with status ${response.status}`
+      );
+    }
+
+    return response;
+  }
+
+  async complete(messages: ChatMessage[], options: Partial<LlmCompletionOptions> = {}) {
+    const response = await this.send(messages, options, false);
+    const json = (await response.json()) as any;
+    const blocks = Array.isArray(json?.content) ? json.content : [];
+    const content = blocks
+      .filter((block: any) => block?.type === "text" && typeof block.text === "string")
+      .map((block: any) => block.text as string)
+      .join("");
+    if (!content) {
+      throw new Error("LLM returned invalid content payload.");
+    }
+    return content;
+  }
+
+  async *stream(messages: ChatMessage[], options: Partial<LlmCompletionOptions> = {}) {
+    const response = await this.send(messages, options, true);
+    if (!response.body) {
+      throw new Error("LLM returned an empty stream.");
+    }
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      if (event === "message_stop") break;
+      if (event !== "content_block_delta") continue;
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      const delta = chunk?.delta?.text;
+      if (typeof delta === "string" && delta) {
+        yield delta;
+      }
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { LlmConfigurationError } from "./types";
+
+/**
+ * Joins a base URL with a default path, leaving the URL untouched when it
+ * already points at a specific endpoint.
+ */
+export function resolveEndpoint(baseUrl: string | undefined, apiPath: string, label: string) {
+  if (!baseUrl) {
+    throw new LlmConfigurationError(`${label} base URL is not configured.`);
+  }
+
+  let endpoint: URL;
+  try {
+    endpoint = new URL(baseUrl);
+  } catch (err) {
+    throw new LlmConfigurationError(`${label} base URL is not a valid URL.`);
+  }
+  if (!endpoint.pathname || endpoint.pathname === "/") {
+    endpoint.pathname = apiPath.startsWith("/") ? apiPath : `/${apiPath}`;
+  }
+  return endpoint.toString();
+}
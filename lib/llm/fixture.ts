@@ -0,0 +1,115 @@
+import { readFile } from "fs/promises";
+
+import type {
+  ChatMessage,
+  LlmCompletionOptions,
+  LlmProvider,
+  LlmProviderConfig,
+} from "./types";
+
+type EchoSide = { city?: string; anchors?: Array<{ name?: string }> };
+
+type EchoContext = {
+  location?: { city?: string; state?: string };
+  strategic_context?: Record<string, unknown>;
+  anchor_spots?: Array<{ name?: string; category?: string | null; summary?: string | null }>;
+  origin?: EchoSide;
+  destination?: EchoSide;
+};
+
+function parseContext(messages: ChatMessage[]): EchoContext {
+  // The first user turn carries the pipeline context; later turns are repair prompts.
+  const input = messages.find((message) => message.role === "user");
+  if (!input) return {};
+  try {
+    return JSON.parse(input.content) as EchoContext;
+  } catch {
+    return {};
+  }
+}
+
+function echoSynthesis(context: EchoContext) {
+  const city = context.location?.city || "the area";
+  const anchors = (context.anchor_spots ?? [])
+    .filter((spot) => spot?.name)
+    .slice(0, 6)
+    .map((spot) => ({
+      category: (spot.category || "LOCAL_FAVORITE").toUpperCase().replace(/\s+/g, "_"),
+      name: spot.name as string,
+      summary: spot.summary || `${spot.name} is a local spot near ${city}.`,
+    }));
+
+  const knowledge: Record<string, string[]> = {};
+  for (const [key, value] of Object.entries(context.strategic_context ?? {})) {
+    if (!Array.isArray(value)) continue;
+    const sentences = value.filter((item): item is string => typeof item === "string").slice(0, 2);
+    if (sentences.length) {
+      knowledge[key] = sentences;
+    }
+  }
+  if (!anchors.length && !Object.keys(knowledge).length) {
+    knowledge.emotional_connectors = [`Neighbors around ${city} love talking about home.`];
+  }
+
+  return {
+    anchors,
+    summary_card: {
+      local_lifestyle_hook: anchors[0]
+        ? `Have you been out to ${anchors[0].name} lately?`
+        : `What do you enjoy most about living around ${city}?`,
+      equity_or_payment_hook: `Plenty of folks around ${city} are rethinking how their home fits the way they live.`,
+      intent_probe: `If your next place nailed one thing about ${city}, what would it be?`,
+    },
+    knowledge,
+  };
+}
+
+// Relocation comparisons send `origin` and `destination` instead of a location.
+function echoComparison(origin: EchoSide, destination: EchoSide) {
+  const from = origin.city || "home";
+  const to = destination.city || "the new place";
+  const firstAnchor = (side: EchoSide) => side.anchors?.find((anchor) => anchor?.name)?.name;
+  return {
+    shared_themes: [`Both ${from} and ${to} have neighbors who love talking about home.`],
+    contrasts: {},
+    miss_hooks: [`What are you going to miss most about ${firstAnchor(origin) ?? from}?`],
+    gain_hooks: [`What are you most looking forward to about ${firstAnchor(destination) ?? to}?`],
+  };
+}
+
+/**
+ * Offline provider for local development and demos. Returns the contents of
+ * `LLM_FIXTURE_PATH` verbatim when set, otherwise echoes the pipeline context
+ * back as a deterministic synthesis (or relocation comparison) so the UI
+ * renders without network access.
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly kind = "fixture" as const;
+  readonly model: string;
+  readonly defaults: LlmCompletionOptions;
+  private readonly fixturePath?: string;
+
+  constructor(config: LlmProviderConfig) {
+    this.model = config.model || "fixture";
+    this.defaults = config.defaults;
+    this.fixturePath = config.fixturePath;
+  }
+
+  async complete(messages: ChatMessage[]) {
+    if (this.fixturePath) {
+      return readFile(this.fixturePath, "utf8");
+    }
+    const context = parseContext(messages);
+    if (context.origin && context.destination) {
+      return JSON.stringify(echoComparison(context.origin, context.destination));
+    }
+    return JSON.stringify(echoSynthesis(context));
+  }
+
+  async *stream(messages: ChatMessage[]) {
+    const content = await this.complete(messages);
+    for (let offset = 0; offset < content.length; offset += 64) {
+      yield content.slice(offset, offset + 64);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { AnthropicProvider } from "./anthropic";
+import { FixtureProvider } from "./fixture";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import {
+  LlmConfigurationError,
+  type LlmProvider,
+  type LlmProviderConfig,
+  type LlmProviderKind,
+} from "./types";
+
+export * from "./types";
+
+const PROVIDER_KINDS: LlmProviderKind[] = ["openai", "anthropic", "fixture"];
+
+const DEFAULT_MODELS: Record<LlmProviderKind, string> = {
+  openai: "grok-3",
+  anthropic: "claude-3-5-sonnet-latest",
+  fixture: "fixture",
+};
+
+function readNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function parseKind(value: string | undefined, variable: string): LlmProviderKind {
+  const requested = (value || "openai").trim().toLowerCase();
+  if (!PROVIDER_KINDS.includes(requested as LlmProviderKind)) {
+    throw new LlmConfigurationError(
+      `${variable} "${requested}" is not supported. Use one of: ${PROVIDER_KINDS.join(", ")}.`
+    );
+  }
+  return requested as LlmProviderKind;
+}
+
+/**
+ * Reads provider settings from the environment. `LLM_*` variables win; the
+ * older `GROK_*` variables still configure the default OpenAI-compatible
+ * provider so existing deployments keep working.
+ */
+export function readLlmConfig(env: NodeJS.ProcessEnv = process.env): LlmProviderConfig {
+  const kind = parseKind(env.LLM_PROVIDER, "LLM_PROVIDER");
+  const legacy = kind === "openai";
+
+  return {
+    kind,
+    model: env.LLM_MODEL || (legacy ? env.GROK_MODEL : undefined) || DEFAULT_MODELS[kind],
+    apiKey: env.LLM_API_KEY || (legacy ? env.GROK_API_KEY : undefined),
+    baseUrl:
+      env.LLM_BASE_URL ||
+      (legacy ? env.GROK_API_BASE_URL || env.GROK_API_URL : undefined),
+    apiPath: env.LLM_API_PATH || (legacy ? env.GROK_API_PATH : undefined),
+    fixturePath: env.LLM_FIXTURE_PATH || undefined,
+    defaults: {
+      temperature: readNumber(env.LLM_TEMPERATURE, 0.7),
+      maxTokens: readNumber(env.LLM_MAX_TOKENS, 900),
+      timeoutMs: readNumber(env.LLM_TIMEOUT_MS, 45000),
+    },
+  };
+}
+
+/**
+ * Reads the secondary provider from `LLM_FALLBACK_*`. Unset values inherit
+ * from the primary config, so `LLM_FALLBACK_MODEL` alone switches models on
+ * the same endpoint. Returns null when no fallback is configured.
+ */
+export function readFallbackLlmConfig(
+  env: NodeJS.ProcessEnv = process.env
+): LlmProviderConfig | null {
+  if (!env.LLM_FALLBACK_PROVIDER && !env.LLM_FALLBACK_MODEL) {
+    return null;
+  }
+  const primary = readLlmConfig(env);
+  const kind = env.LLM_FALLBACK_PROVIDER
+    ? parseKind(env.LLM_FALLBACK_PROVIDER, "LLM_FALLBACK_PROVIDER")
+    : primary.kind;
+  const sameKind = kind === primary.kind;
+
+  return {
+    kind,
+    model:
+      env.LLM_FALLBACK_MODEL || (sameKind ? primary.model : DEFAULT_MODELS[kind]),
+    apiKey: env.LLM_FALLBACK_API_KEY || (sameKind ? primary.apiKey : undefined),
+    baseUrl: env.LLM_FALLBACK_BASE_URL || (sameKind ? primary.baseUrl : undefined),
+    apiPath: env.LLM_FALLBACK_API_PATH || (sameKind ? primary.apiPath : undefined),
+    fixturePath: primary.fixturePath,
+    defaults: primary.defaults,
+  };
+}
+
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+  switch (config.kind) {
+    case "anthropic":
+      return new AnthropicProvider(config);
+    case "fixture":
+      return new FixtureProvider(config);
+    case "openai":
+    default:
+      return new OpenAICompatibleProvider(config);
+  }
+}
+
+let cachedProvider: LlmProvider | null = null;
+let cachedFallback: LlmProvider | null | undefined;
+
+export function getLlmProvider() {
+  if (!cachedProvider) {
+    cachedProvider = createLlmProvider(readLlmConfig());
+  }
+  return cachedProvider;
+}
+
+export function getFallbackLlmProvider() {
+  if (cachedFallback === undefined) {
+    const config = readFallbackLlmConfig();
+    cachedFallback = config ? createLlmProvider(config) : null;
+  }
+  return cachedFallback;
+}
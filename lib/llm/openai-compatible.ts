@@ -0,0 +1,122 @@
+import { fetchWithTimeout, readErrorPreview } from "@/lib/http";
+import { readServerSentEvents } from "@/lib/sse";
+
+import { resolveEndpoint } from "./endpoint";
+import type {
+  ChatMessage,
+  LlmCompletionOptions,
+  LlmProvider,
+  LlmProviderConfig,
+} from "./types";
+
+/**
+ * Chat-completions client for xAI, OpenAI, and local servers that mimic the
+ * same API (Ollama, llama.cpp, vLLM). The API key is optional so local
+ * servers can run without one.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly kind = "openai" as const;
+  readonly model: string;
+  readonly defaults: LlmCompletionOptions;
+  private readonly apiKey?: string;
+  private readonly baseUrl?: string;
+  private readonly apiPath: string;
+
+  constructor(config: LlmProviderConfig) {
+    this.model = config.model;
+    this.defaults = config.defaults;
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl;
+    this.apiPath = config.apiPath || "/v1/chat/completions";
+  }
+
+  private async send(
+    messages: ChatMessage[],
+    options: Partial<LlmCompletionOptions>,
+    stream: boolean
+  ) {
+    const settings = { ...this.defaults, ...options };
+    const endpoint = resolveEndpoint(this.baseUrl, this.apiPath, "LLM");
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let response;
+    try {
+      response = await fetchWithTimeout(
+        endpoint,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            messages,
+            model: this.model,
+            temperature: settings.temperature,
+            max_tokens: settings.maxTokens,
+            ...(settings.json ? { response_format: { type: "json_object" } } : {}),
+            ...(stream ? { stream: true } : {}),
+          }),
+          signal: settings.signal,
+        },
+        settings.timeoutMs
+      );
+    } catch (error) {
+      if (settings.signal?.aborted) {
+        throw settings.signal.reason;
+      }
+      console.warn("LLM request aborted or failed:", error);
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : "LLM request failed before a response was returned."
+      );
+    }
+
+    if (!response.ok) {
+      const errorPreview = await readErrorPreview(response);
+      console.warn(
+        `LLM response status ${response.status} (POST ${endpoint})${
+          errorPreview ? `: ${errorPreview}` : ""
+        }`
+      );
+      throw new Error(
+        errorPreview
+          ? `LLM responded with status ${response.status}: ${errorPreview}`
+          : `LLM responded with status ${response.status}`
+      );
+    }
+    return response;
+  }
+
+  async complete(messages: ChatMessage[], options: Partial<LlmCompletionOptions> = {}) {
+    const response = await this.send(messages, options, false);
+    const json = (await response.json()) as any;
+    const content = json?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("LLM returned invalid content payload.");
+    }
+    return content;
+  }
+
+  async *stream(messages: ChatMessage[], options: Partial<LlmCompletionOptions> = {}) {
+    const response = await this.send(messages, options, true);
+    if (!response.body) {
+      throw new Error("LLM returned an empty stream.");
+    }
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") break;
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta) {
+        yield delta;
+      }
+    }
+  }
+}
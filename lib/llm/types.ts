@@ -0,0 +1,49 @@
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LlmCompletionOptions = {
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  /** Ask the provider for a JSON object when it supports a native JSON mode. */
+  json?: boolean;
+  /** Cancels the request, including a response still streaming; its reason is thrown. */
+  signal?: AbortSignal;
+};
+
+export type LlmProviderKind = "openai" | "anthropic" | "fixture";
+
+export type LlmProviderConfig = {
+  kind: LlmProviderKind;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  apiPath?: string;
+  fixturePath?: string;
+  defaults: LlmCompletionOptions;
+};
+
+export interface LlmProvider {
+  readonly kind: LlmProviderKind;
+  readonly model: string;
+  readonly defaults: LlmCompletionOptions;
+  complete(
+    messages: ChatMessage[],
+    options?: Partial<LlmCompletionOptions>
+  ): Promise<string>;
+  /** Yields text deltas as they arrive. Providers without streaming omit this. */
+  stream?(
+    messages: ChatMessage[],
+    options?: Partial<LlmCompletionOptions>
+  ): AsyncIterable<string>;
+}
+
+/** Raised when the provider cannot run at all because of missing or invalid settings. */
+export class LlmConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmConfigurationError";
+  }
+}
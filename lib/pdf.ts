@@ -0,0 +1,169 @@
+// Minimal text-only PDF writer: US Letter pages set in the standard Helvetica
+// fonts, which every PDF reader ships, so no font files or services are needed.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from the Adobe AFM.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "…": 0x85,
+  "€": 0x80,
+};
+
+export type PdfBlock = {
+  text: string;
+  /** Font size in points; defaults to 10. */
+  size?: number;
+  bold?: boolean;
+  /** Extra space above the block, in points. */
+  spaceBefore?: number;
+  /** Left indent in points, for list items. */
+  indent?: number;
+  /** Gray level from 0 (black) to 1 (white). */
+  gray?: number;
+  /** Moves to a new page rather than end the page on this block, e.g. for headings. */
+  keepWithNext?: boolean;
+};
+
+// Page numbers sit in the bottom margin, below the text area.
+const FOOTER_SIZE = 7;
+const FOOTER_Y = MARGIN / 2;
+
+function toWinAnsi(text: string) {
+  let encoded = "";
+  for (const char of text.normalize("NFC")) {
+    const code = char.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[char]) encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    else if (code === 9) encoded += " ";
+    else if (code >= 32 && code <= 255 && !(code >= 127 && code < 160)) encoded += char;
+    else encoded += "?";
+  }
+  return encoded;
+}
+
+function textWidth(text: string, size: number, bold: boolean) {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  // Bold glyphs run a little wider; this keeps wrapping on the safe side.
+  return (units * size * (bold ? 1.06 : 1)) / 1000;
+}
+
+function wrapLine(text: string, size: number, bold: boolean, width: number) {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (!current || textWidth(candidate, size, bold) <= width) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length ? lines : [""];
+}
+
+function escapePdfString(text: string) {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Lays `blocks` out top to bottom, wrapping to the page width and starting a
+ * new page when one fills. A `keepWithNext` block moves to the next page with
+ * the first line of the block after it. Every page is numbered in its footer.
+ * Returns the finished PDF file.
+ */
+export function renderTextPdf(blocks: PdfBlock[], { title }: { title: string }): Buffer {
+  const pages: string[][] = [[]];
+  const top = PAGE_HEIGHT - MARGIN;
+  let y = top;
+
+  const laidOut = blocks.map((block) => {
+    const size = block.size ?? 10;
+    const bold = block.bold ?? false;
+    const indent = block.indent ?? 0;
+    const lines = wrapLine(toWinAnsi(block.text), size, bold, PAGE_WIDTH - 2 * MARGIN - indent);
+    return { block, size, bold, indent, leading: size * 1.35, lines };
+  });
+
+  laidOut.forEach(({ block, size, bold, indent, leading, lines }, index) => {
+    y -= block.spaceBefore ?? 0;
+    const next = laidOut[index + 1];
+    if (block.keepWithNext && next && pages[pages.length - 1].length > 0) {
+      const needed = lines.length * leading + (next.block.spaceBefore ?? 0) + next.leading;
+      if (y - needed < MARGIN) {
+        pages.push([]);
+        y = top;
+      }
+    }
+
+    for (const line of lines) {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = top;
+      }
+      y -= leading;
+      pages[pages.length - 1].push(
+        `BT /${bold ? "F2" : "F1"} ${size} Tf ${block.gray ?? 0} g ${MARGIN + indent} ${y.toFixed(2)} Td (${escapePdfString(line)}) Tj ET`
+      );
+    }
+  });
+
+  pages.forEach((commands, index) => {
+    const footer = toWinAnsi(`${title} – page ${index + 1} of ${pages.length}`);
+    commands.push(
+      `BT /F1 ${FOOTER_SIZE} Tf 0.45 g ${MARGIN} ${FOOTER_Y} Td (${escapePdfString(footer)}) Tj ET`
+    );
+  });
+
+  // Objects 1–4 are fixed; each page adds a page object and its content stream.
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((commands, index) => {
+    const content = commands.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+  objects.push(`<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (Rapport Builder) >>`);
+
+  // Every character is a single Latin-1 byte, so string lengths are byte offsets.
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,193 @@
+import { formatCsv, parseCsv } from "@/lib/csv";
+import { mapWithConcurrency } from "@/lib/http";
+
+import {
+  detectZipColumn,
+  ENRICHMENT_COLUMNS,
+  normalizeLeadZip,
+  type LeadRowResult,
+} from "./leads";
+import { buildRapport } from "./pipeline";
+import type { ZipRapportResponse } from "./types";
+
+export const BATCH_MAX_BYTES = Number(process.env.BATCH_MAX_BYTES) || 2 * 1024 * 1024;
+const BATCH_MAX_ROWS = Number(process.env.BATCH_MAX_ROWS) || 1000;
+const BATCH_CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 3);
+
+/** The upload itself is unusable (empty, no ZIP column, too many rows). */
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchInputError";
+  }
+}
+
+/** The upload is larger than `BATCH_MAX_BYTES`. */
+export class BatchTooLargeError extends Error {
+  constructor() {
+    super(`CSV uploads are limited to ${Math.round(BATCH_MAX_BYTES / 1024)} KB.`);
+    this.name = "BatchTooLargeError";
+  }
+}
+
+/**
+ * Reads an uploaded CSV body without holding more than `BATCH_MAX_BYTES` of
+ * it. A declared `Content-Length` over the limit is refused before reading;
+ * otherwise the read stops as soon as the bytes received pass it.
+ */
+export async function readBatchUpload(request: Request): Promise<string> {
+  if (Number(request.headers.get("content-length")) > BATCH_MAX_BYTES) {
+    throw new BatchTooLargeError();
+  }
+  if (!request.body) {
+    return "";
+  }
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > BATCH_MAX_BYTES) {
+      await reader.cancel().catch(() => undefined);
+      throw new BatchTooLargeError();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export type BatchSummary = {
+  rows: number;
+  zips: number;
+  ok: number;
+  degraded: number;
+  failed: number;
+};
+
+type BatchOptions = {
+  /** Header name of the ZIP column; detected from common names when omitted. */
+  zipColumn?: string | null;
+  onStart?: (totals: { rows: number; zips: number }) => void;
+  onRow?: (result: LeadRowResult, completed: number) => void;
+};
+
+type ZipOutcome = { brief: ZipRapportResponse } | { error: string };
+
+async function briefForZip(zip: string): Promise<ZipOutcome> {
+  try {
+    const brief = await buildRapport({ zip });
+    return brief ? { brief } : { error: `ZIP ${zip} not found.` };
+  } catch (error) {
+    console.warn(`Batch enrichment failed for ${zip}:`, error);
+    return { error: error instanceof Error ? error.message : "Unknown upstream failure." };
+  }
+}
+
+function invalidZip(rawZip: string): ZipOutcome {
+  return { error: `"${rawZip}" is not a 5-digit ZIP code.` };
+}
+
+function enrichmentCells(outcome: ZipOutcome): string[] {
+  if ("error" in outcome) {
+    return ["error", outcome.error, ...ENRICHMENT_COLUMNS.slice(2).map(() => "")];
+  }
+  const { brief } = outcome;
+  const anchors = brief.grok_anchors
+    .slice(0, 3)
+    .map((anchor) => `${anchor.name}: ${anchor.summary}`);
+  return [
+    brief.degraded ? "degraded" : "ok",
+    brief.degraded_reason ?? "",
+    brief.city,
+    brief.state,
+    brief.summary_card.local_lifestyle_hook,
+    brief.summary_card.equity_or_payment_hook,
+    brief.summary_card.intent_probe,
+    ...[0, 1, 2].map((index) => anchors[index] ?? ""),
+  ];
+}
+
+/**
+ * Enriches a CSV lead list: every distinct ZIP is briefed once through the
+ * cached pipeline, at most `BATCH_CONCURRENCY` at a time, and the hooks and
+ * top anchors are appended to each row as `ENRICHMENT_COLUMNS`. Bad ZIPs and
+ * per-ZIP failures are written into that row's `rapport_status` and
+ * `rapport_error` instead of failing the batch. Throws `BatchInputError`
+ * when the file itself cannot be processed.
+ */
+export async function enrichLeadCsv(
+  text: string,
+  { zipColumn, onStart, onRow }: BatchOptions = {}
+): Promise<{ csv: string; summary: BatchSummary }> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !rows.length) {
+    throw new BatchInputError("The CSV needs a header row and at least one lead.");
+  }
+  if (rows.length > BATCH_MAX_ROWS) {
+    throw new BatchInputError(`Batches are limited to ${BATCH_MAX_ROWS} rows; this file has ${rows.length}.`);
+  }
+
+  const zipIndex = zipColumn
+    ? header.findIndex((name) => name.trim().toLowerCase() === zipColumn.trim().toLowerCase())
+    : detectZipColumn(header);
+  if (zipIndex === -1) {
+    throw new BatchInputError(
+      zipColumn
+        ? `No column named "${zipColumn}" in the CSV header.`
+        : 'No ZIP column found. Name it "zip" or choose the column to use.'
+    );
+  }
+
+  const rawZips = rows.map((row) => row[zipIndex] ?? "");
+  const zips = rawZips.map(normalizeLeadZip);
+  const rowsByZip = new Map<string, number[]>();
+  zips.forEach((zip, index) => {
+    if (!zip) return;
+    rowsByZip.set(zip, [...(rowsByZip.get(zip) ?? []), index]);
+  });
+
+  onStart?.({ rows: rows.length, zips: rowsByZip.size });
+
+  const outcomes = new Map<string, ZipOutcome>();
+  let completed = 0;
+  const outcomeFor = (index: number) => {
+    const zip = zips[index];
+    return (zip && outcomes.get(zip)) || invalidZip(rawZips[index]);
+  };
+  const report = (index: number) => {
+    const outcome = outcomeFor(index);
+    completed += 1;
+    onRow?.(
+      {
+        row: index + 1,
+        zip: zips[index] ?? rawZips[index],
+        status: "error" in outcome ? "error" : outcome.brief.degraded ? "degraded" : "ok",
+        error: "error" in outcome ? outcome.error : null,
+      },
+      completed
+    );
+  };
+
+  zips.forEach((zip, index) => {
+    if (!zip) report(index);
+  });
+  await mapWithConcurrency(Array.from(rowsByZip.keys()), BATCH_CONCURRENCY, async (zip) => {
+    const outcome = await briefForZip(zip);
+    outcomes.set(zip, outcome);
+    rowsByZip.get(zip)?.forEach((index) => report(index));
+  });
+
+  const summary: BatchSummary = { rows: rows.length, zips: rowsByZip.size, ok: 0, degraded: 0, failed: 0 };
+  const enriched = rows.map((row, index) => {
+    const cells = enrichmentCells(outcomeFor(index));
+    if (cells[0] === "ok") summary.ok += 1;
+    else if (cells[0] === "degraded") summary.degraded += 1;
+    else summary.failed += 1;
+    const padded = [...row, ...new Array(Math.max(0, header.length - row.length)).fill("")];
+    return [...padded, ...cells];
+  });
+
+  return { csv: formatCsv([[...header, ...ENRICHMENT_COLUMNS], ...enriched]), summary };
+}
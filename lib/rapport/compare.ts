@@ -0,0 +1,285 @@
+import { z } from "zod";
+
+import { createTieredCache } from "@/lib/cache";
+import { Deadline } from "@/lib/deadline";
+import { haversineMiles } from "@/lib/geo";
+import type { ChatMessage } from "@/lib/llm";
+
+import { complianceRulesetVersion, createComplianceScreen } from "./compliance";
+import { buildRapport } from "./pipeline";
+import { parseJsonCompletion, runWithModelFallbacks, validateWithRepair } from "./synthesis";
+import {
+  COMPARISON_BUCKET_KEYS,
+  CONTEXT_BUCKET_KEYS,
+  type ComparisonBucketKey,
+  type ComplianceReport,
+  type RapportTarget,
+  type RelocationComparison,
+  type ZipRapportResponse,
+} from "./types";
+
+// The comparison is one model call, so it gets the brief's model budget.
+const NARRATIVE_BUDGET_MS = Number(process.env.RAPPORT_LLM_BUDGET_MS) || 15000;
+
+const line = z.string().trim().min(1).max(300);
+
+const comparisonSchema = z.object({
+  shared_themes: z.array(line).min(1).max(4),
+  contrasts: z
+    .object(
+      Object.fromEntries(COMPARISON_BUCKET_KEYS.map((key) => [key, line.optional()])) as Record<
+        ComparisonBucketKey,
+        z.ZodOptional<typeof line>
+      >
+    )
+    .strict(),
+  miss_hooks: z.array(line).min(1).max(3),
+  gain_hooks: z.array(line).min(1).max(3),
+});
+
+type ComparisonNarrative = z.infer<typeof comparisonSchema>;
+
+type ScreenedNarrative = { narrative: ComparisonNarrative; compliance: ComplianceReport };
+
+// Keyed by both briefs' build times and the compliance rule set, so a rebuilt
+// brief or a rule edit gets a fresh narrative.
+const narrativeCache = createTieredCache<ScreenedNarrative>({
+  namespace: "compare",
+  ttlMs: 24 * 60 * 60 * 1000,
+  staleMs: 0,
+  maxEntries: 200,
+});
+
+const systemPrompt = [
+  "You are helping a mortgage loan officer talk with a borrower who is relocating from one place to another.",
+  "",
+  "INPUT JSON has `origin` and `destination`, each with {city, state, zip, anchors, knowledge}, plus distance_miles.",
+  "",
+  "OUTPUT: respond with a single JSON object and nothing else (no prose, no code fences). Shape:",
+  "{",
+  '  "shared_themes": ["Both Scottsdale and Austin revolve around patio season and weekend hikes."],',
+  '  "contrasts": {',
+  '    "seasonal_rhythms": "Scottsdale\'s big outdoor season is winter; in Austin it\'s spring and fall."',
+  "  },",
+  '  "miss_hooks": ["What are you going to miss most about sunrise hikes up Camelback?"],',
+  '  "gain_hooks": ["Have you had a chance to catch a show on Sixth Street yet?"]',
+  "}",
+  "",
+  "Guidance:",
+  "- shared_themes: 2-3 things the two places have in common that the borrower will recognize.",
+  `- contrasts: one sentence per key, keys only from ${COMPARISON_BUCKET_KEYS.join(", ")}; omit a key if you cannot say something specific.`,
+  "- miss_hooks: 2 warm questions about what they will miss from the origin, naming a real anchor or ritual.",
+  "- gain_hooks: 2 warm questions about what they can look forward to in the destination.",
+  "- Keep every line under 30 words, friendly, and non-salesy.",
+  "",
+  "Compliance:",
+  "- No mention of crime, demographics, income levels, schools rankings, or politics.",
+  "- Do not assume personal finances, job status, or family situation, or why they are moving.",
+  "- Do not promise rates or savings.",
+].join("\n");
+
+function bucketSentences(brief: ZipRapportResponse, key: (typeof CONTEXT_BUCKET_KEYS)[number]) {
+  const written = brief.knowledge_brief[key];
+  return (written?.length ? written : brief.raw_supporting_data.strategic_context[key] ?? []).slice(0, 2);
+}
+
+function sideContext(brief: ZipRapportResponse) {
+  const knowledge = Object.fromEntries(
+    CONTEXT_BUCKET_KEYS.map((key) => [key, bucketSentences(brief, key)]).filter(
+      ([, sentences]) => sentences.length > 0
+    )
+  );
+  return {
+    city: brief.city,
+    state: brief.state,
+    zip: brief.zip,
+    anchors: brief.grok_anchors.slice(0, 6).map(({ name, category }) => ({ name, category })),
+    knowledge,
+  };
+}
+
+function themeLabel(key: string) {
+  return key.toLowerCase().replace(/_/g, " ");
+}
+
+// Used when no model answers: themes come from the buckets and anchor
+// categories both briefs cover, hooks from each side's top anchors.
+function buildDeterministicNarrative(
+  origin: ZipRapportResponse,
+  destination: ZipRapportResponse
+): ComparisonNarrative {
+  const topics = (brief: ZipRapportResponse) =>
+    new Set([
+      ...CONTEXT_BUCKET_KEYS.filter((key) => bucketSentences(brief, key).length > 0).map(themeLabel),
+      ...brief.grok_anchors.map((anchor) => themeLabel(anchor.category)),
+    ]);
+  const destinationTopics = topics(destination);
+  const shared = Array.from(topics(origin))
+    .filter((topic) => destinationTopics.has(topic))
+    .slice(0, 3)
+    .map((topic) => `Both ${origin.city} and ${destination.city} give you plenty to talk about on ${topic}.`);
+
+  const miss = origin.grok_anchors
+    .slice(0, 2)
+    .map((anchor) => `What are you going to miss most about ${anchor.name}?`);
+  const gain = destination.grok_anchors
+    .slice(0, 2)
+    .map((anchor) => `Have you had a chance to check out ${anchor.name} in ${destination.city} yet?`);
+
+  return {
+    shared_themes: shared.length
+      ? shared
+      : [`${origin.city} and ${destination.city} each have their own rhythm worth asking about.`],
+    contrasts: {},
+    miss_hooks: miss.length ? miss : [`What are you going to miss most about life in ${origin.city}?`],
+    gain_hooks: gain.length
+      ? gain
+      : [`What are you most looking forward to about ${destination.city}?`],
+  };
+}
+
+// The system prompt asks the model to stay clear of the screened topics; this
+// checks that it did. A list the screen empties is refilled from the
+// templated narrative, which is built from already-screened briefs.
+function screenNarrative(
+  narrative: ComparisonNarrative,
+  fallback: ComparisonNarrative
+): ScreenedNarrative {
+  const screen = createComplianceScreen();
+  const list = (field: string, lines: string[], backup: string[]) => {
+    const kept = screen.lines(field, lines);
+    return kept.length ? kept : backup;
+  };
+  const contrasts: ComparisonNarrative["contrasts"] = {};
+  for (const bucket of COMPARISON_BUCKET_KEYS) {
+    const contrast = narrative.contrasts[bucket];
+    const [kept] = contrast ? screen.lines(`contrasts.${bucket}`, [contrast]) : [];
+    if (kept) contrasts[bucket] = kept;
+  }
+  return {
+    narrative: {
+      shared_themes: list("shared_themes", narrative.shared_themes, fallback.shared_themes),
+      contrasts,
+      miss_hooks: list("hooks.miss", narrative.miss_hooks, fallback.miss_hooks),
+      gain_hooks: list("hooks.gain", narrative.gain_hooks, fallback.gain_hooks),
+    },
+    compliance: screen.report(),
+  };
+}
+
+async function writeNarrative(
+  origin: ZipRapportResponse,
+  destination: ZipRapportResponse,
+  distanceMiles: number | null
+): Promise<ScreenedNarrative & { degradedReason: string | null }> {
+  const key = [origin, destination]
+    .map((brief) => `${brief.zip}:${brief.city}@${brief.generated_at}`)
+    .concat(complianceRulesetVersion() ?? "unscreened")
+    .join(">");
+  const cached = await narrativeCache.read(key);
+  if (cached) {
+    return { ...cached.value, degradedReason: null };
+  }
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    {
+      role: "user",
+      content: JSON.stringify({
+        origin: sideContext(origin),
+        destination: sideContext(destination),
+        distance_miles: distanceMiles,
+      }),
+    },
+  ];
+  // Every call, the repair pass included, shares one budget; running out
+  // falls back like any other model failure.
+  const { value, degradedReason, failures } = await new Deadline(NARRATIVE_BUDGET_MS).stage(
+    "narrative",
+    (signal) =>
+      runWithModelFallbacks(async (provider) =>
+        validateWithRepair(
+          provider,
+          messages,
+          await provider.complete(messages, { json: true, signal }),
+          (content) => parseJsonCompletion(content, comparisonSchema),
+          { signal }
+        )
+      ),
+    {
+      fallback: (error) => ({
+        value: null,
+        degradedReason: null,
+        failures: [error instanceof Error ? error.message : "Unknown LLM failure."],
+      }),
+    }
+  );
+
+  const fallback = buildDeterministicNarrative(origin, destination);
+  if (!value) {
+    return {
+      ...screenNarrative(fallback, fallback),
+      degradedReason: `No model answered, so this comparison was assembled from the two briefs. ${failures.join(" ")}`,
+    };
+  }
+  const screened = screenNarrative(value, fallback);
+  if (!degradedReason) {
+    await narrativeCache.write(key, screened);
+  }
+  return { ...screened, degradedReason };
+}
+
+/**
+ * Builds (or reuses cached) briefs for both places, then compares them:
+ * shared themes, per-bucket contrasts, miss/gain hooks, and the straight-line
+ * distance between centroids. Returns the side that did not resolve when
+ * either ZIP is unknown.
+ */
+export async function compareRapports(
+  originTarget: RapportTarget,
+  destinationTarget: RapportTarget
+): Promise<RelocationComparison | { missing: "origin" | "destination" }> {
+  const [origin, destination] = await Promise.all([
+    buildRapport(originTarget),
+    buildRapport(destinationTarget),
+  ]);
+  if (!origin) return { missing: "origin" };
+  if (!destination) return { missing: "destination" };
+
+  const from = origin.location;
+  const to = destination.location;
+  const distanceMiles =
+    typeof from?.latitude === "number" &&
+    typeof from?.longitude === "number" &&
+    typeof to?.latitude === "number" &&
+    typeof to?.longitude === "number"
+      ? Math.round(haversineMiles(from.latitude, from.longitude, to.latitude, to.longitude))
+      : null;
+
+  const { narrative, compliance, degradedReason } = await writeNarrative(
+    origin,
+    destination,
+    distanceMiles
+  );
+
+  return {
+    generated_at: new Date().toISOString(),
+    distance_miles: distanceMiles,
+    degraded: degradedReason !== null,
+    degraded_reason: degradedReason,
+    shared_themes: narrative.shared_themes,
+    contrasts: COMPARISON_BUCKET_KEYS.map((bucket) => ({
+      bucket,
+      origin: bucketSentences(origin, bucket),
+      destination: bucketSentences(destination, bucket),
+      summary: narrative.contrasts[bucket] ?? null,
+    })),
+    hooks: {
+      miss: narrative.miss_hooks,
+      gain: narrative.gain_hooks,
+    },
+    compliance,
+    origin,
+    destination,
+  };
+}
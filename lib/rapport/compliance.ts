@@ -0,0 +1,282 @@
+import { createHash } from "crypto";
+import { readFileSync, statSync } from "fs";
+import path from "path";
+import { z } from "zod";
+
+import { whyLocalsGo } from "./enrichment";
+import { summarizePlace } from "./places";
+import {
+  CONTEXT_BUCKET_KEYS,
+  type ComplianceFinding,
+  type ComplianceReport,
+  type GrokAnchor,
+  type KnowledgeBrief,
+  type LocalPlace,
+  type RapportSummary,
+  type StrategicContextBuckets,
+} from "./types";
+
+const ruleSchema = z.object({
+  id: z.string().trim().min(1),
+  category: z.string().trim().min(1),
+  description: z.string().optional(),
+  match: z.enum(["keyword", "phrase", "regex"]),
+  patterns: z.array(z.string().trim().min(1)).min(1),
+  action: z.enum(["redact", "drop"]),
+  replacement: z.string().optional(),
+});
+
+const ruleFileSchema = z.object({
+  version: z.string().trim().min(1),
+  description: z.string().optional(),
+  rules: z.array(ruleSchema),
+});
+
+export type ComplianceRuleFile = z.infer<typeof ruleFileSchema>;
+
+type CompiledRule = {
+  id: string;
+  category: string;
+  action: "redact" | "drop";
+  replacement: string;
+  pattern: RegExp;
+};
+
+type LoadedRuleSet = {
+  version: string;
+  file: ComplianceRuleFile;
+  rules: CompiledRule[];
+};
+
+const DEFAULT_REPLACEMENT = "[removed]";
+
+export function complianceRulesPath(env: NodeJS.ProcessEnv = process.env) {
+  return path.resolve(
+    env.COMPLIANCE_RULES_PATH || path.join(process.cwd(), "config", "compliance-rules.json")
+  );
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Keywords match whole words; phrases match their words in order with any
+// spacing or hyphens between them; regex patterns are used as written.
+function compilePattern(match: "keyword" | "phrase" | "regex", pattern: string) {
+  if (match === "regex") {
+    return pattern;
+  }
+  const words = pattern.split(/[\s-]+/).filter(Boolean).map(escapeRegex);
+  return `\\b${words.join(match === "phrase" ? "[\\s-]+" : "\\s+")}\\b`;
+}
+
+function compileRuleFile(raw: string): LoadedRuleSet {
+  const file = ruleFileSchema.parse(JSON.parse(raw));
+  const rules = file.rules.map((rule) => {
+    const source = rule.patterns.map((pattern) => `(?:${compilePattern(rule.match, pattern)})`);
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source.join("|"), "gi");
+    } catch (error) {
+      throw new Error(
+        `Rule ${rule.id} has an invalid pattern: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return {
+      id: rule.id,
+      category: rule.category,
+      action: rule.action,
+      replacement: rule.replacement ?? DEFAULT_REPLACEMENT,
+      pattern,
+    };
+  });
+  const digest = createHash("sha1").update(raw).digest("hex").slice(0, 8);
+  return { version: `${file.version}+${digest}`, file, rules };
+}
+
+let loaded: LoadedRuleSet | null = null;
+let loadedMtimeMs = -1;
+let loadError: string | null = null;
+
+/**
+ * Returns the active rule set, re-reading the rule file whenever it changes
+ * on disk so edits apply without a redeploy. A file that fails to parse is
+ * reported and the last good rule set stays in force; null means no rule set
+ * has ever loaded.
+ */
+export function loadComplianceRules(): { ruleset: LoadedRuleSet | null; error: string | null } {
+  const file = complianceRulesPath();
+  try {
+    const { mtimeMs } = statSync(file);
+    if (mtimeMs !== loadedMtimeMs) {
+      loadedMtimeMs = mtimeMs;
+      loaded = compileRuleFile(readFileSync(file, "utf8"));
+      loadError = null;
+    }
+  } catch (error) {
+    const message = error instanceof z.ZodError
+      ? error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+      : error instanceof Error
+        ? error.message
+        : String(error);
+    if (loadError !== message) {
+      console.error(`Compliance rules at ${file} could not be loaded:`, message);
+    }
+    loadError = message;
+  }
+  return { ruleset: loaded, error: loadError };
+}
+
+export function complianceRulesetVersion() {
+  return loadComplianceRules().ruleset?.version ?? null;
+}
+
+/**
+ * Screens brief content against the active rule set, remembering every hit
+ * for the compliance report. `drop` rules remove the item they match;
+ * `redact` rules replace just the matched text. One screen covers one brief.
+ */
+export function createComplianceScreen() {
+  const { ruleset, error } = loadComplianceRules();
+  const findings: ComplianceFinding[] = [];
+  // Indices that survived each screened list, so index-aligned data such as
+  // provenance can be filtered to match.
+  const keptIndices = new Map<string, number[]>();
+  let checked = 0;
+  let redacted = 0;
+  let dropped = 0;
+
+  // Returns the screened text, or null when the item must go. Anchor names
+  // pass `dropOnMatch`, since a half-redacted place name is no use on a call.
+  function screenText(field: string, text: string, dropOnMatch = false): string | null {
+    checked += 1;
+    let result = text;
+    let changed = false;
+    for (const rule of ruleset?.rules ?? []) {
+      const hit = result.match(rule.pattern)?.[0];
+      if (!hit) continue;
+      const action = dropOnMatch ? "drop" : rule.action;
+      findings.push({ rule_id: rule.id, category: rule.category, action, field, match: hit });
+      if (action === "drop") {
+        dropped += 1;
+        return null;
+      }
+      result = result.replace(rule.pattern, rule.replacement);
+      changed = true;
+    }
+    if (changed) redacted += 1;
+    return result;
+  }
+
+  function screenList(field: string, items: string[]) {
+    const kept: number[] = [];
+    const screened: string[] = [];
+    items.forEach((item, index) => {
+      const result = screenText(`${field}[${index}]`, item);
+      if (result !== null) {
+        kept.push(index);
+        screened.push(result);
+      }
+    });
+    keptIndices.set(field, kept);
+    return screened;
+  }
+
+  return {
+    strategic(buckets: StrategicContextBuckets): StrategicContextBuckets {
+      const screened = { ...buckets };
+      for (const key of CONTEXT_BUCKET_KEYS) {
+        screened[key] = screenList(`strategic_context.${key}`, buckets[key] ?? []);
+      }
+      if (buckets.city_snapshot) {
+        screened.city_snapshot = screenText("strategic_context.city_snapshot", buckets.city_snapshot);
+      }
+      return screened;
+    },
+
+    knowledge(knowledge: KnowledgeBrief): KnowledgeBrief {
+      const screened: KnowledgeBrief = {};
+      for (const key of CONTEXT_BUCKET_KEYS) {
+        const sentences = screenList(`knowledge_brief.${key}`, knowledge[key] ?? []);
+        if (sentences.length) {
+          screened[key] = sentences;
+        }
+      }
+      return screened;
+    },
+
+    anchors(anchors: GrokAnchor[]): GrokAnchor[] {
+      const kept: number[] = [];
+      const screened = anchors.flatMap((anchor, index) => {
+        const name = screenText(`grok_anchors[${index}].name`, anchor.name, true);
+        const summary = name && screenText(`grok_anchors[${index}].summary`, anchor.summary);
+        if (!name || !summary) return [];
+        kept.push(index);
+        return [{ ...anchor, summary }];
+      });
+      keptIndices.set("grok_anchors", kept);
+      return screened;
+    },
+
+    // Place descriptions come straight from OSM, Wikipedia and search. A
+    // dropped summary takes its reason line with it, and both fall back to the
+    // templated lines for the place.
+    places(places: LocalPlace[]): LocalPlace[] {
+      return places.map((place, index) => {
+        const field = `local_places[${index}]`;
+        const description = place.description
+          ? screenText(`${field}.description`, place.description)
+          : place.description;
+        const summary = place.summary ? screenText(`${field}.summary`, place.summary) : place.summary;
+        if (place.summary && summary === null) {
+          return {
+            ...place,
+            description,
+            summary: summarizePlace(place),
+            summary_source: null,
+            why_locals_go: whyLocalsGo(place),
+          };
+        }
+        const reason = place.why_locals_go
+          ? screenText(`${field}.why_locals_go`, place.why_locals_go)
+          : place.why_locals_go;
+        return { ...place, description, summary, why_locals_go: reason ?? whyLocalsGo(place) };
+      });
+    },
+
+    // Dropped hooks are left out so `buildSummaryCard` fills them with its
+    // templated fallback.
+    summary(summary: Partial<RapportSummary>): Partial<RapportSummary> {
+      const screened: Partial<RapportSummary> = {};
+      for (const key of Object.keys(summary) as Array<keyof RapportSummary>) {
+        const line = summary[key];
+        const result = line ? screenText(`summary_card.${key}`, line) : null;
+        if (result) {
+          screened[key] = result;
+        }
+      }
+      return screened;
+    },
+
+    /** Lines outside a brief, such as a relocation comparison's, screened under `field`. */
+    lines(field: string, items: string[]): string[] {
+      return screenList(field, items);
+    },
+
+    /** Indices kept from the list screened under `field`, e.g. `knowledge_brief.sports_heat`. */
+    kept(field: string) {
+      return keptIndices.get(field);
+    },
+
+    report(): ComplianceReport {
+      return {
+        ruleset_version: ruleset?.version ?? null,
+        checked,
+        redacted,
+        dropped,
+        findings: [...findings],
+        error: ruleset ? null : error ?? "No compliance rules are loaded.",
+      };
+    },
+  };
+}
+
+export type ComplianceScreen = ReturnType<typeof createComplianceScreen>;
@@ -0,0 +1,241 @@
+import { createTieredCache } from "@/lib/cache";
+import { isDeliberateSkip } from "@/lib/circuit-breaker";
+import { mapWithConcurrency } from "@/lib/http";
+import { ensureSentence, fetchDuckDuckGoSnippets, fetchWikipediaSummary } from "@/lib/search";
+
+import { normalizeName, summarizePlace } from "./places";
+import type { DescriptionSource, LocalPlace } from "./types";
+
+const PLACE_ENRICHMENT_CONCURRENCY = Math.max(
+  1,
+  Number(process.env.PLACE_ENRICHMENT_CONCURRENCY) || 4
+);
+const PLACE_ENRICHMENT_TTL_MS =
+  (Number(process.env.PLACE_ENRICHMENT_TTL_SECONDS) || 14 * 24 * 60 * 60) * 1000;
+
+type PlaceDescription = Pick<LocalPlace, "summary" | "summary_source" | "why_locals_go">;
+
+// Places change slowly, so descriptions outlive the briefs that use them and
+// are shared by every brief whose tiers reach the same place.
+const descriptionCache = createTieredCache<PlaceDescription>({
+  namespace: "place-descriptions",
+  version: 2,
+  ttlMs: PLACE_ENRICHMENT_TTL_MS,
+  staleMs: PLACE_ENRICHMENT_TTL_MS,
+  maxEntries: 5000,
+});
+
+// An encyclopedia lead beats a mapper's note, which beats a search snippet.
+const SOURCE_QUALITY: Record<DescriptionSource, number> = {
+  wikipedia: 3,
+  osm: 2.5,
+  search: 2,
+};
+// Descriptions scoring below this fall back to the templated sentence.
+const MIN_QUALITY = 1.5;
+// A description this good is not worth a search query to improve on.
+const GOOD_ENOUGH_QUALITY = 2.5;
+const MAX_SUMMARY_LENGTH = 300;
+
+type DescriptionOrigin = { kind: DescriptionSource; query: string | null; url: string | null };
+
+type Candidate = {
+  text: string;
+  source: DescriptionOrigin;
+  quality: number;
+};
+
+// Keeps the first two sentences, which is where leads and snippets say what
+// a place is.
+function leadSentences(text: string) {
+  const sentences = text.replace(/\s+/g, " ").trim().match(/[^.!?]+[.!?]+(?=\s|$)/g) ?? [text];
+  let lead = "";
+  for (const sentence of sentences.slice(0, 2)) {
+    if (lead && lead.length + sentence.length > MAX_SUMMARY_LENGTH) break;
+    lead = `${lead} ${sentence.trim()}`.trim();
+  }
+  return ensureSentence(lead.length > MAX_SUMMARY_LENGTH ? lead.slice(0, MAX_SUMMARY_LENGTH) : lead);
+}
+
+function rateDescription(text: string, source: DescriptionOrigin, place: LocalPlace) {
+  let quality = SOURCE_QUALITY[source.kind];
+  // Without a source page, a search answer is DuckDuckGo's own phrasing.
+  if (source.kind === "search" && !source.url) quality -= 0.5;
+  if (text.length < 40) quality -= 1.5;
+  if (normalizeName(text).includes(normalizeName(place.name))) quality += 0.5;
+  if (/may refer to|is a list of|disambiguation/i.test(text)) quality -= 3;
+  return quality;
+}
+
+function candidate(text: string, source: DescriptionOrigin, place: LocalPlace): Candidate | null {
+  const lead = leadSentences(text);
+  return lead ? { text: lead, source, quality: rateDescription(lead, source, place) } : null;
+}
+
+const best = (candidates: Candidate[]) =>
+  candidates.reduce<Candidate | null>(
+    (top, entry) => (!top || entry.quality > top.quality ? entry : top),
+    null
+  );
+
+// What a neighbor would say they go there for, by category.
+const CATEGORY_REASONS: Record<string, string> = {
+  Park: "a walk, a picnic, or a pickup game",
+  Playground: "an easy outing with the kids",
+  "Coffee Shop": "a morning coffee and a familiar face",
+  Bakery: "fresh bread and weekend pastries",
+  Library: "story time, quiet study, and community events",
+  "Community Hub": "classes, meetings, and neighborhood events",
+  Trail: "a hike or run close to home",
+  Lake: "time on the water and sunset views",
+  Stadium: "game days with the home crowd",
+  "Rec Center": "workouts, swim time, and youth leagues",
+  "Golf Course": "a round with friends",
+  Museum: "exhibits worth bringing out-of-town guests to",
+  Zoo: "a family day out",
+  Market: "local produce and running into neighbors",
+  "Shopping Destination": "errands, dinner, and a movie in one trip",
+  Brewery: "a local pint with friends",
+  "National Park": "a full day of scenery and hiking",
+  "Nature Reserve": "wildlife, quiet trails, and fresh air",
+  "Theme Park": "a big family day out",
+  "Ski Area": "winter weekends on the slopes",
+};
+
+const REASON_PATTERN = /\b(?:best known for|known for|famous for|popular for|loved for|beloved for)\s+([^.;:!?]+)/i;
+
+/**
+ * One short line on why locals go. A description that says what the place
+ * is known for supplies the reason; otherwise the category does.
+ */
+export function whyLocalsGo(place: LocalPlace, description?: string | null) {
+  const reason = description?.match(REASON_PATTERN)?.[1]?.trim().replace(/,$/, "");
+  if (reason && reason.length >= 8 && reason.length <= 110) {
+    return `Locals go for ${reason}.`;
+  }
+  const byCategory = place.category ? CATEGORY_REASONS[place.category] : undefined;
+  return byCategory ? `Locals go for ${byCategory}.` : "A spot neighbors know by name.";
+}
+
+/**
+ * Gathers descriptions from the place's OSM tags, its Wikipedia article and
+ * DuckDuckGo, and keeps the best. Search only runs when the first two come up
+ * short. `complete` is false when a source could not be reached, so the
+ * result is not cached.
+ */
+async function describePlace(place: LocalPlace, city: string, state: string, signal?: AbortSignal) {
+  const candidates: Candidate[] = [];
+  let complete = true;
+  const tryCandidate = (text: string | null | undefined, source: DescriptionOrigin) => {
+    const entry = text ? candidate(text, source, place) : null;
+    if (entry) candidates.push(entry);
+  };
+  const failed = (error: unknown, what: string) => {
+    complete = false;
+    if (!isDeliberateSkip(error)) {
+      console.warn(`${what} lookup for ${place.name} failed:`, error);
+    }
+  };
+
+  const osmUrl = place.osm_id ? `https://www.openstreetmap.org/${place.osm_id}` : null;
+  tryCandidate(place.description, { kind: "osm", query: null, url: osmUrl });
+
+  if (place.wikipedia) {
+    try {
+      const article = await fetchWikipediaSummary(place.wikipedia, signal);
+      tryCandidate(article?.extract, {
+        kind: "wikipedia",
+        query: null,
+        url: article?.url ?? place.wikipedia,
+      });
+    } catch (error) {
+      failed(error, "Wikipedia");
+    }
+  }
+
+  if ((best(candidates)?.quality ?? 0) < GOOD_ENOUGH_QUALITY && city && state) {
+    const queries = [
+      `Why do locals love ${place.name} in ${city}, ${state}?`,
+      `${place.name} ${city} ${state} popular activities`,
+    ];
+    // Both phrasings run at once so a slow miss on one doesn't hold up the
+    // place; the better answer wins below.
+    const answers = await Promise.allSettled(
+      queries.map((query) => fetchDuckDuckGoSnippets(query, 1, signal))
+    );
+    answers.forEach((answer, index) => {
+      const [snippet] = answer.status === "fulfilled" ? answer.value : [];
+      if (snippet) {
+        tryCandidate(snippet.text, { kind: "search", query: queries[index], url: snippet.url });
+      }
+    });
+    // Both usually fail for the same reason, so one warning is enough.
+    const rejected = answers.find(
+      (answer): answer is PromiseRejectedResult => answer.status === "rejected"
+    );
+    if (rejected) {
+      failed(rejected.reason, "Search");
+    }
+  }
+
+  const chosen = best(candidates);
+  const description: PlaceDescription =
+    chosen && chosen.quality >= MIN_QUALITY
+      ? {
+          summary: chosen.text,
+          summary_source: chosen.source,
+          why_locals_go: whyLocalsGo(place, chosen.text),
+        }
+      : { summary: summarizePlace(place), summary_source: null, why_locals_go: whyLocalsGo(place) };
+  return { description, complete };
+}
+
+const cacheKey = (place: LocalPlace, city: string, state: string) =>
+  `${place.osm_id ?? normalizeName(place.name)}|${city}|${state}`.toLowerCase();
+
+/**
+ * Describes every place, a few at a time, from the description cache where
+ * possible. Places whose lookups are cancelled by `signal` keep their
+ * templated summary.
+ */
+export function enrichLocalPlaces(
+  places: LocalPlace[],
+  city: string,
+  state: string,
+  signal?: AbortSignal
+): Promise<LocalPlace[]> {
+  return mapWithConcurrency(places, PLACE_ENRICHMENT_CONCURRENCY, async (place) => {
+    const templated = {
+      ...place,
+      summary: summarizePlace(place),
+      summary_source: null,
+      why_locals_go: whyLocalsGo(place),
+    };
+    if (signal?.aborted) {
+      return templated;
+    }
+    const key = cacheKey(place, city, state);
+    try {
+      const cached = await descriptionCache.read(key);
+      if (cached) {
+        if (cached.status === "stale") {
+          descriptionCache.refreshInBackground(key, async () => {
+            const { description, complete } = await describePlace(place, city, state);
+            return complete ? description : null;
+          });
+        }
+        return { ...place, ...cached.value };
+      }
+      const { description, complete } = await describePlace(place, city, state, signal);
+      if (complete) {
+        await descriptionCache.write(key, description);
+      }
+      return { ...place, ...description };
+    } catch (error) {
+      if (!isDeliberateSkip(error)) {
+        console.warn(`Enriching ${place.name} failed:`, error);
+      }
+      return templated;
+    }
+  });
+}
@@ -0,0 +1,222 @@
+import { renderTextPdf, type PdfBlock } from "@/lib/pdf";
+
+import type { ContextBucketKey, ZipRapportResponse } from "./types";
+
+export const EXPORT_FORMATS = ["pdf", "md", "txt"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const DEFAULT_DISCLAIMER =
+  "For conversation prep only. This sheet is not an offer to lend, a commitment, or a quote, and says nothing about rates, terms, or eligibility. Details come from public sources and automated summaries and may be out of date; confirm before repeating them. Do not use it to make credit decisions or to steer anyone toward or away from a neighborhood.";
+
+const EXPORT_DISCLAIMER = process.env.EXPORT_DISCLAIMER?.trim() || DEFAULT_DISCLAIMER;
+
+// Buckets that tend to start a conversation come first on the sheet.
+const KNOWLEDGE_PRIORITY: ContextBucketKey[] = [
+  "iconic_destinations",
+  "community_traditions",
+  "seasonal_rhythms",
+  "outdoor_showstoppers",
+  "food_and_drink",
+  "sports_heat",
+  "positive_news",
+  "economic_momentum",
+  "emotional_connectors",
+  "desirability_factors",
+];
+
+const MAX_ANCHORS = 5;
+const MAX_KNOWLEDGE = 6;
+
+type CallSheet = {
+  title: string;
+  generatedAt: string;
+  notice: string | null;
+  snapshot: string | null;
+  hooks: Array<{ label: string; line: string }>;
+  anchors: Array<{ name: string; category: string; summary: string; unverified: boolean }>;
+  knowledge: Array<{ bucket: string; sentence: string }>;
+  disclaimer: string;
+};
+
+function bucketLabel(bucket: string) {
+  return bucket.replace(/_/g, " ").replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+// Shown in the brief's local time zone when known, so "as of" matches the LO's market.
+function formatGeneratedAt(brief: ZipRapportResponse) {
+  const timeZone = brief.location?.timezone ?? "UTC";
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+      timeZoneName: "short",
+    }).format(new Date(brief.generated_at));
+  } catch {
+    return brief.generated_at;
+  }
+}
+
+function buildCallSheet(brief: ZipRapportResponse): CallSheet {
+  const place = [brief.location?.neighborhood, `${brief.city}, ${brief.state}`, brief.zip]
+    .filter(Boolean)
+    .join(" ");
+
+  // One sentence per bucket in priority order, then second sentences if room remains.
+  const knowledge: CallSheet["knowledge"] = [];
+  for (const pass of [0, 1]) {
+    for (const bucket of KNOWLEDGE_PRIORITY) {
+      const sentence = brief.knowledge_brief[bucket]?.[pass];
+      if (sentence && knowledge.length < MAX_KNOWLEDGE) {
+        knowledge.push({ bucket: bucketLabel(bucket), sentence });
+      }
+    }
+  }
+
+  return {
+    title: `Call sheet: ${place}`,
+    generatedAt: formatGeneratedAt(brief),
+    notice: brief.degraded ? "Backup brief: assembled from live sources without the usual writer." : null,
+    snapshot: brief.raw_supporting_data.strategic_context.city_snapshot ?? null,
+    hooks: [
+      { label: "Opener", line: brief.summary_card.local_lifestyle_hook },
+      { label: "Bridge", line: brief.summary_card.equity_or_payment_hook },
+      { label: "Question", line: brief.summary_card.intent_probe },
+    ],
+    anchors: brief.grok_anchors.slice(0, MAX_ANCHORS).map((anchor) => ({
+      name: anchor.name,
+      category: bucketLabel(anchor.category.toLowerCase()),
+      summary: anchor.summary,
+      unverified: anchor.verified === false,
+    })),
+    knowledge,
+    disclaimer: EXPORT_DISCLAIMER,
+  };
+}
+
+function renderMarkdown(sheet: CallSheet) {
+  const lines = [`# ${sheet.title}`, "", `_Brief generated ${sheet.generatedAt}_`];
+  if (sheet.notice) lines.push("", `> ${sheet.notice}`);
+  if (sheet.snapshot) lines.push("", "## Snapshot", "", sheet.snapshot);
+  lines.push("", "## Open the call", "", ...sheet.hooks.map(({ label, line }) => `- **${label}:** ${line}`));
+  if (sheet.anchors.length) {
+    lines.push(
+      "",
+      "## Local anchors",
+      "",
+      ...sheet.anchors.map(
+        ({ name, category, summary, unverified }) =>
+          `- **${name}** (${category}${unverified ? ", unverified" : ""}): ${summary}`
+      )
+    );
+  }
+  if (sheet.knowledge.length) {
+    lines.push(
+      "",
+      "## Worth knowing",
+      "",
+      ...sheet.knowledge.map(({ bucket, sentence }) => `- _${bucket}:_ ${sentence}`)
+    );
+  }
+  lines.push("", "---", "", `_${sheet.disclaimer}_`, "");
+  return lines.join("\n");
+}
+
+function renderPlainText(sheet: CallSheet) {
+  const section = (heading: string) => ["", heading.toUpperCase(), "-".repeat(heading.length)];
+  const lines = [sheet.title, `Brief generated ${sheet.generatedAt}`];
+  if (sheet.notice) lines.push("", sheet.notice);
+  if (sheet.snapshot) lines.push(...section("Snapshot"), sheet.snapshot);
+  lines.push(...section("Open the call"), ...sheet.hooks.map(({ label, line }) => `${label}: ${line}`));
+  if (sheet.anchors.length) {
+    lines.push(
+      ...section("Local anchors"),
+      ...sheet.anchors.map(
+        ({ name, category, summary, unverified }) =>
+          `* ${name} (${category}${unverified ? ", unverified" : ""}): ${summary}`
+      )
+    );
+  }
+  if (sheet.knowledge.length) {
+    lines.push(
+      ...section("Worth knowing"),
+      ...sheet.knowledge.map(({ bucket, sentence }) => `* ${bucket}: ${sentence}`)
+    );
+  }
+  lines.push("", sheet.disclaimer, "");
+  return lines.join("\n");
+}
+
+function renderPdf(sheet: CallSheet) {
+  const heading = (text: string): PdfBlock => ({
+    text,
+    size: 11,
+    bold: true,
+    spaceBefore: 12,
+    keepWithNext: true,
+  });
+  const blocks: PdfBlock[] = [
+    { text: sheet.title, size: 16, bold: true },
+    { text: `Brief generated ${sheet.generatedAt}`, size: 9, gray: 0.4, spaceBefore: 2 },
+  ];
+  if (sheet.notice) blocks.push({ text: sheet.notice, size: 9, bold: true, spaceBefore: 6 });
+  if (sheet.snapshot) blocks.push(heading("Snapshot"), { text: sheet.snapshot, spaceBefore: 2 });
+  blocks.push(heading("Open the call"));
+  sheet.hooks.forEach(({ label, line }) => {
+    blocks.push({
+      text: label.toUpperCase(),
+      size: 8,
+      bold: true,
+      gray: 0.4,
+      spaceBefore: 4,
+      keepWithNext: true,
+    });
+    blocks.push({ text: line, size: 11 });
+  });
+  if (sheet.anchors.length) {
+    blocks.push(heading("Local anchors"));
+    sheet.anchors.forEach(({ name, category, summary, unverified }) => {
+      const label = `${name} · ${category}${unverified ? " · unverified" : ""}`;
+      blocks.push({ text: label, bold: true, spaceBefore: 4, keepWithNext: true });
+      blocks.push({ text: summary, size: 9, indent: 10 });
+    });
+  }
+  if (sheet.knowledge.length) {
+    blocks.push(heading("Worth knowing"));
+    sheet.knowledge.forEach(({ bucket, sentence }) => {
+      blocks.push({ text: `• ${bucket}: ${sentence}`, size: 9, spaceBefore: 2 });
+    });
+  }
+  blocks.push({ text: sheet.disclaimer, size: 7, gray: 0.45, spaceBefore: 16 });
+  return renderTextPdf(blocks, { title: sheet.title });
+}
+
+/**
+ * Renders a brief as a compact, printable call sheet: snapshot, the three
+ * hooks, top anchors, the most conversational knowledge sentences, when it
+ * was generated, and a compliance disclaimer.
+ */
+export function exportCallSheet(brief: ZipRapportResponse, format: ExportFormat) {
+  const sheet = buildCallSheet(brief);
+  const slug = brief.zip || `${brief.city}-${brief.state}`.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const filename = `call-sheet-${slug}`;
+  if (format === "pdf") {
+    return { body: renderPdf(sheet), contentType: "application/pdf", filename: `${filename}.pdf` };
+  }
+  if (format === "md") {
+    return {
+      body: renderMarkdown(sheet),
+      contentType: "text/markdown; charset=utf-8",
+      filename: `${filename}.md`,
+    };
+  }
+  return {
+    body: renderPlainText(sheet),
+    contentType: "text/plain; charset=utf-8",
+    filename: `${filename}.txt`,
+  };
+}
@@ -0,0 +1,312 @@
+import {
+  findNeighborZips,
+  findZipsNear,
+  getZipRecord,
+  type ZipRecord,
+} from "@/lib/gazetteer";
+import { createTieredCache } from "@/lib/cache";
+import { circuitBreaker, isDeliberateSkip } from "@/lib/circuit-breaker";
+import { fetchWithTimeout } from "@/lib/http";
+
+import { nominatimUrl, parseNominatimAddress, reverseNominatim } from "./nominatim";
+import type { GeoLocation, ZipPlace } from "./types";
+
+const ZIPPOPOTAM_FALLBACK = process.env.ZIPPOPOTAM_FALLBACK !== "false";
+const ZIP_PLACES_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// A ZIP's place names rarely change, so Zippopotam is asked about each ZIP
+// about once a month rather than on every lookup.
+const zipPlacesCache = createTieredCache<ZipPlace[]>({
+  namespace: "zip-places",
+  ttlMs: ZIP_PLACES_TTL_MS,
+  staleMs: ZIP_PLACES_TTL_MS,
+  maxEntries: 5000,
+});
+
+/** Thrown when `place` is not one of the names a ZIP is filed under. */
+export class UnknownPlaceError extends Error {
+  constructor(
+    readonly zip: string,
+    readonly place: string,
+    readonly places: string[]
+  ) {
+    super(`"${place}" is not a place in ZIP ${zip}. Try one of: ${places.join(", ")}.`);
+    this.name = "UnknownPlaceError";
+  }
+}
+
+/** Case- and punctuation-insensitive form of a place name, used for matching and cache keys. */
+export function normalizePlaceName(place: string) {
+  return place.trim().toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function lookupGazetteer(zip: string): GeoLocation | null {
+  const record = getZipRecord(zip);
+  if (!record) return null;
+  // The gazetteer keeps one centroid per ZIP, so every place shares it.
+  const places = [record.city, ...record.alternate_names].map((name) => ({
+    name,
+    latitude: record.latitude,
+    longitude: record.longitude,
+  }));
+  return {
+    zip: record.zip,
+    city: record.city,
+    state: record.state,
+    neighborhood: null,
+    latitude: record.latitude,
+    longitude: record.longitude,
+    places,
+    county: record.county,
+    county_fips: record.county_fips,
+    cbsa_code: record.cbsa_code,
+    cbsa_name: record.cbsa_name,
+    timezone: record.timezone,
+    neighbors: findNeighborZips(record.zip),
+    source: "gazetteer",
+  };
+}
+
+// An unknown ZIP (404) is an answer, not a failure, so only transport
+// errors and other statuses count against the breaker.
+async function fetchZippopotam(zip: string, signal?: AbortSignal): Promise<any | null> {
+  const res = await fetchWithTimeout(
+    `https://api.zippopotam.us/us/${zip}`,
+    { signal },
+    8000
+  );
+
+  if (res.status === 404) {
+    return null;
+  }
+
+  if (!res.ok) {
+    throw new Error(`Zippopotam lookup failed with status ${res.status}`);
+  }
+
+  return res.json();
+}
+
+async function lookupZippopotam(zip: string, signal?: AbortSignal): Promise<GeoLocation | null> {
+  const data: any = await circuitBreaker("zippopotam").run(() => fetchZippopotam(zip, signal));
+  if (!data) {
+    return null;
+  }
+  const places = Array.isArray(data?.places) ? data.places : [];
+
+  if (places.length === 0) {
+    return null;
+  }
+
+  const first = places[0] || {};
+  const candidates: ZipPlace[] = places
+    .filter((place: any) => typeof place?.["place name"] === "string" && place["place name"])
+    .map((place: any) => {
+      const latitude = parseFloat(place["latitude"]);
+      const longitude = parseFloat(place["longitude"]);
+      return {
+        name: place["place name"],
+        latitude: Number.isFinite(latitude) ? latitude : null,
+        longitude: Number.isFinite(longitude) ? longitude : null,
+      };
+    });
+  const primary = candidates[0];
+  return {
+    zip: data["post code"] ?? zip,
+    city: primary?.name ?? "",
+    state: first["state abbreviation"] ?? first["state"] ?? "",
+    neighborhood: null,
+    latitude: primary?.latitude ?? null,
+    longitude: primary?.longitude ?? null,
+    places: candidates,
+    county: null,
+    county_fips: null,
+    cbsa_code: null,
+    cbsa_name: null,
+    timezone: null,
+    neighbors: [],
+    source: "zippopotam",
+  };
+}
+
+async function zippopotamPlaces(zip: string, signal?: AbortSignal): Promise<ZipPlace[]> {
+  const load = async (abort?: AbortSignal) => (await lookupZippopotam(zip, abort))?.places ?? [];
+  const cached = await zipPlacesCache.read(zip);
+  if (cached) {
+    if (cached.status === "stale") {
+      zipPlacesCache.refreshInBackground(zip, () => load());
+    }
+    return cached.value;
+  }
+  const places = await load(signal);
+  await zipPlacesCache.write(zip, places);
+  return places;
+}
+
+// Gazetteer names come first so the primary place stays primary; Zippopotam
+// adds the names the dataset lacks, with coordinates of their own.
+function mergePlaces(local: ZipPlace[], remote: ZipPlace[]) {
+  const seen = new Set(local.map((place) => normalizePlaceName(place.name)));
+  const added = remote.filter((place) => {
+    const key = normalizePlaceName(place.name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...local, ...added];
+}
+
+async function resolveZip(zip: string, signal?: AbortSignal): Promise<GeoLocation | null> {
+  const local = lookupGazetteer(zip);
+  if (local) {
+    // A dataset built without a places file lists one name per ZIP.
+    if (!ZIPPOPOTAM_FALLBACK || local.places.length > 1) {
+      return local;
+    }
+    const remote = await zippopotamPlaces(zip, signal).catch((error) => {
+      if (!isDeliberateSkip(error)) {
+        console.warn(`Zippopotam places for ${zip} are unavailable:`, error);
+      }
+      return [];
+    });
+    return { ...local, places: mergePlaces(local.places, remote) };
+  }
+  if (!ZIPPOPOTAM_FALLBACK) {
+    return null;
+  }
+  console.warn(`ZIP ${zip} is not in the gazetteer; trying Zippopotam.`);
+  return lookupZippopotam(zip, signal);
+}
+
+/**
+ * Resolves a ZIP from the bundled gazetteer, falling back to Zippopotam when
+ * the ZIP is newer than the dataset. When the gazetteer has a single name for
+ * the ZIP, Zippopotam's place names are merged in. Set
+ * `ZIPPOPOTAM_FALLBACK=false` to stay fully offline.
+ *
+ * Without `place` the ZIP's primary place is used. With it, the matching
+ * candidate becomes `city` and supplies the coordinates; an unmatched name
+ * throws `UnknownPlaceError`.
+ */
+export async function lookupZip(
+  zip: string,
+  place?: string | null,
+  signal?: AbortSignal
+): Promise<GeoLocation | null> {
+  const geo = await resolveZip(zip, signal);
+  if (!geo || !place) {
+    return geo;
+  }
+  const target = normalizePlaceName(place);
+  const selected = geo.places.find((candidate) => normalizePlaceName(candidate.name) === target);
+  if (!selected) {
+    throw new UnknownPlaceError(
+      geo.zip,
+      place,
+      geo.places.map((candidate) => candidate.name)
+    );
+  }
+  return {
+    ...geo,
+    city: selected.name,
+    latitude: selected.latitude ?? geo.latitude,
+    longitude: selected.longitude ?? geo.longitude,
+  };
+}
+
+export function validateZip(zip: string) {
+  return /^\d{5}$/.test(zip);
+}
+
+/**
+ * Parses `lat`/`lon` query values, rounded to three decimals (about 100 m)
+ * so nearby requests share a cache entry. Returns null when out of range.
+ */
+export function parseCoordinates(lat: string | null, lon: string | null) {
+  const latitude = Number.parseFloat(lat ?? "");
+  const longitude = Number.parseFloat(lon ?? "");
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+  return {
+    latitude: Math.round(latitude * 1000) / 1000,
+    longitude: Math.round(longitude * 1000) / 1000,
+  };
+}
+
+function nearestZipRecord(latitude: number, longitude: number): ZipRecord | null {
+  const [nearest] = findZipsNear(latitude, longitude, { radiusMiles: 10, limit: 1 });
+  return nearest ? getZipRecord(nearest.zip) : null;
+}
+
+/**
+ * Resolves an arbitrary point to a location centered on that point. Nominatim
+ * reverse geocoding supplies the city, neighborhood and containing ZIP; the
+ * gazetteer fills in county, metro and time zone, and stands in for the city
+ * and ZIP when Nominatim is unreachable. Returns null outside the U.S.
+ */
+export async function lookupPoint(
+  latitude: number,
+  longitude: number,
+  signal?: AbortSignal
+): Promise<GeoLocation | null> {
+  const url = nominatimUrl("reverse");
+  url.searchParams.set("lat", String(latitude));
+  url.searchParams.set("lon", String(longitude));
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("addressdetails", "1");
+  url.searchParams.set("zoom", "16");
+
+  let reverseError: unknown = null;
+  const reverse = await reverseNominatim(url, { signal }).catch((error) => {
+    reverseError = error;
+    return null;
+  });
+  const address = reverse ? parseNominatimAddress(reverse.address) : null;
+  if (reverse && !address?.state) {
+    return null;
+  }
+
+  const record =
+    (address?.zip ? getZipRecord(address.zip) : null) ?? nearestZipRecord(latitude, longitude);
+  const city = address?.city ?? record?.city;
+  const state = address?.state ?? record?.state;
+  if (!city || !state) {
+    if (reverseError) throw reverseError;
+    return null;
+  }
+
+  const zip = address?.zip ?? record?.zip ?? "";
+  const places: ZipPlace[] = record
+    ? [record.city, ...record.alternate_names].map((name) => ({
+        name,
+        latitude: record.latitude,
+        longitude: record.longitude,
+      }))
+    : [];
+  if (!places.some((place) => place.name === city)) {
+    places.unshift({ name: city, latitude, longitude });
+  }
+
+  return {
+    zip,
+    city,
+    state,
+    neighborhood: address?.neighborhood ?? null,
+    latitude,
+    longitude,
+    places,
+    county: record?.county ?? null,
+    county_fips: record?.county_fips ?? null,
+    cbsa_code: record?.cbsa_code ?? null,
+    cbsa_name: record?.cbsa_name ?? null,
+    timezone: record?.timezone ?? null,
+    neighbors: findZipsNear(latitude, longitude, { exclude: zip }),
+    source: reverse ? "nominatim" : "gazetteer",
+  };
+}
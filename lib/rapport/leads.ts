@@ -0,0 +1,44 @@
+// Lead-list helpers shared by the batch endpoint and the batch page.
+
+const ZIP_HEADER_PATTERN = /^(zip|zip_?code|zipcode|zip5|postal_?code|postcode)$/;
+
+/** Index of the first header that looks like a ZIP column, or -1. */
+export function detectZipColumn(header: string[]) {
+  return header.findIndex((name) =>
+    ZIP_HEADER_PATTERN.test(name.trim().toLowerCase().replace(/[\s-]+/g, "_"))
+  );
+}
+
+/**
+ * Normalizes a ZIP as it appears in exported lead lists: ZIP+4 is trimmed to
+ * five digits and spreadsheet-stripped leading zeros ("2134") are restored.
+ * Returns null when the value is not a ZIP.
+ */
+export function normalizeLeadZip(value: string) {
+  const match = value.trim().match(/^(\d{3,5})(?:-\d{4})?$/);
+  return match ? match[1].padStart(5, "0") : null;
+}
+
+/** Columns appended to every row of an enriched lead list, in order. */
+export const ENRICHMENT_COLUMNS = [
+  "rapport_status",
+  "rapport_error",
+  "rapport_city",
+  "rapport_state",
+  "rapport_local_lifestyle_hook",
+  "rapport_equity_or_payment_hook",
+  "rapport_intent_probe",
+  "rapport_anchor_1",
+  "rapport_anchor_2",
+  "rapport_anchor_3",
+] as const;
+
+export type LeadRowStatus = "ok" | "degraded" | "error";
+
+/** Progress for one lead row; `row` is 1-based and excludes the header. */
+export type LeadRowResult = {
+  row: number;
+  zip: string;
+  status: LeadRowStatus;
+  error: string | null;
+};
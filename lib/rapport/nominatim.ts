@@ -0,0 +1,114 @@
+import { circuitBreaker } from "@/lib/circuit-breaker";
+import { CONTACT_USER_AGENT, fetchWithTimeout } from "@/lib/http";
+import { Singleflight } from "@/lib/singleflight";
+
+const NOMINATIM_BASE_URL = (
+  process.env.NOMINATIM_BASE_URL?.trim() || "https://nominatim.openstreetmap.org"
+).replace(/\/$/, "");
+
+export function nominatimUrl(path: "search" | "reverse") {
+  return new URL(`${NOMINATIM_BASE_URL}/${path}`);
+}
+
+const nominatimFlights = new Singleflight<any>();
+
+class NominatimStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`Nominatim responded with status ${status}`);
+    this.name = "NominatimStatusError";
+  }
+}
+
+// Outages, throttling and server errors trip the breaker; a rejected query
+// says nothing about its health.
+function isNominatimFailure(error: unknown) {
+  if (error instanceof NominatimStatusError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+// Identical requests issued at the same time (several LOs opening one ZIP)
+// share a single upstream request. Error statuses throw so each caller can
+// decide whether they count as "no results"; an open breaker throws
+// `CircuitOpenError` without a request. A caller whose signal aborts stops
+// waiting; the shared request is only cancelled once every caller has.
+function fetchNominatim(url: URL, signal?: AbortSignal) {
+  const key = url.toString();
+  return nominatimFlights.run(
+    key,
+    (shared) =>
+      circuitBreaker("nominatim").run(() => requestNominatim(key, shared), {
+        isFailure: isNominatimFailure,
+      }),
+    signal
+  );
+}
+
+async function requestNominatim(url: string, signal?: AbortSignal) {
+  const response = await fetchWithTimeout(
+    url,
+    {
+      headers: {
+        "User-Agent": CONTACT_USER_AGENT,
+      },
+      signal,
+    },
+    8000
+  );
+  if (!response.ok) {
+    throw new NominatimStatusError(response.status);
+  }
+  return response.json();
+}
+
+function statusAsEmpty<T>(fallback: T) {
+  return (error: unknown) => {
+    if (error instanceof NominatimStatusError) return fallback;
+    throw error;
+  };
+}
+
+/**
+ * Runs a search. An error status reads as no results unless `strict` is set,
+ * for callers that must tell "nothing there" apart from "couldn't check".
+ */
+export async function searchNominatim(
+  url: URL,
+  { strict = false, signal }: { strict?: boolean; signal?: AbortSignal } = {}
+): Promise<Array<any>> {
+  const request = fetchNominatim(url, signal);
+  const data = await (strict ? request : request.catch(statusAsEmpty([])));
+  return Array.isArray(data) ? data : [];
+}
+
+export async function reverseNominatim(
+  url: URL,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<any | null> {
+  const data = await fetchNominatim(url, signal).catch(statusAsEmpty(null));
+  return data && typeof data === "object" && !data.error ? data : null;
+}
+
+/** The parts of a Nominatim `address` block a brief cares about. */
+export type NominatimAddress = {
+  zip: string | null;
+  city: string | null;
+  state: string | null;
+  neighborhood: string | null;
+};
+
+/** Reads `addressdetails=1` output; `state` is null outside the U.S. */
+export function parseNominatimAddress(address: any): NominatimAddress {
+  const postcode = typeof address?.postcode === "string" ? address.postcode.match(/^\d{5}/)?.[0] : null;
+  const iso = typeof address?.["ISO3166-2-lvl4"] === "string" ? address["ISO3166-2-lvl4"] : "";
+  const city =
+    address?.city ?? address?.town ?? address?.village ?? address?.hamlet ?? address?.municipality ?? null;
+  const neighborhood = address?.neighbourhood ?? address?.suburb ?? address?.quarter ?? null;
+  return {
+    zip: postcode ?? null,
+    city: typeof city === "string" ? city : null,
+    state: address?.country_code === "us" && iso.startsWith("US-") ? iso.slice(3) : null,
+    neighborhood: typeof neighborhood === "string" ? neighborhood : null,
+  };
+}
@@ -0,0 +1,115 @@
+import { circuitBreaker } from "@/lib/circuit-breaker";
+import { CONTACT_USER_AGENT, fetchWithTimeout } from "@/lib/http";
+import { Singleflight } from "@/lib/singleflight";
+
+const OVERPASS_URL =
+  process.env.OVERPASS_URL?.trim() || "https://overpass-api.de/api/interpreter";
+
+// Seconds the Overpass server may spend on a query before it gives up.
+const OVERPASS_QUERY_TIMEOUT_SECONDS = 25;
+
+/** A node, way or relation from `out center tags`. */
+export type OverpassElement = {
+  type: "node" | "way" | "relation";
+  id: number;
+  lat?: number;
+  lon?: number;
+  /** Ways and relations carry their center instead of coordinates. */
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+};
+
+/** Tags that must all be present, e.g. `{ natural: "water", water: "lake" }`. */
+export type TagFilter = Record<string, string>;
+
+class OverpassStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`Overpass responded with status ${status}`);
+    this.name = "OverpassStatusError";
+  }
+}
+
+const overpassFlights = new Singleflight<OverpassElement[]>();
+
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+/** Elements matching any of `filters` within `radiusMeters` of the center. */
+export type AroundBlock = {
+  filters: TagFilter[];
+  radiusMeters: number;
+};
+
+/**
+ * One Overpass QL statement per filter, finding named elements around the
+ * point. Each block gets its own radius and `out`, so one busy category
+ * cannot crowd the others out of the result limit.
+ */
+export function buildAroundQuery(
+  blocks: AroundBlock[],
+  latitude: number,
+  longitude: number,
+  perBlockLimit: number
+) {
+  const center = `${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+  const statements = blocks.map(({ filters, radiusMeters }) => {
+    const around = `(around:${Math.round(radiusMeters)},${center})`;
+    const union = filters
+      .map(
+        (filter) =>
+          `nwr${Object.keys(filter)
+            .map((key) => `[${quote(key)}=${quote(filter[key])}]`)
+            .join("")}["name"]${around};`
+      )
+      .join("");
+    return `(${union});out center tags ${perBlockLimit};`;
+  });
+  return `[out:json][timeout:${OVERPASS_QUERY_TIMEOUT_SECONDS}];${statements.join("")}`;
+}
+
+export function matchesFilter(tags: Record<string, string>, filter: TagFilter) {
+  return Object.keys(filter).every((key) => tags[key] === filter[key]);
+}
+
+// Server errors, throttling and timeouts trip the breaker; a 400 means our
+// query was malformed and says nothing about the server's health.
+function isOverpassFailure(error: unknown) {
+  return !(error instanceof OverpassStatusError) || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Runs an Overpass QL query against `OVERPASS_URL`, which can point at a
+ * local instance. Identical concurrent queries share one request, which is
+ * only cancelled once every caller's signal has aborted; an open breaker
+ * throws `CircuitOpenError` without one.
+ */
+export function runOverpassQuery(query: string, signal?: AbortSignal) {
+  return overpassFlights.run(
+    query,
+    (shared) =>
+      circuitBreaker("overpass").run(() => requestOverpass(query, shared), {
+        isFailure: isOverpassFailure,
+      }),
+    signal
+  );
+}
+
+async function requestOverpass(query: string, signal?: AbortSignal): Promise<OverpassElement[]> {
+  const response = await fetchWithTimeout(
+    OVERPASS_URL,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        "User-Agent": CONTACT_USER_AGENT,
+      },
+      body: new URLSearchParams({ data: query }).toString(),
+      signal,
+    },
+    (OVERPASS_QUERY_TIMEOUT_SECONDS + 5) * 1000
+  );
+  if (!response.ok) {
+    throw new OverpassStatusError(response.status);
+  }
+  const data: any = await response.json();
+  return Array.isArray(data?.elements) ? data.elements : [];
+}
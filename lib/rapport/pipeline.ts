@@ -0,0 +1,441 @@
+import { createTieredCache } from "@/lib/cache";
+import { circuitBreakerStatuses, type Upstream } from "@/lib/circuit-breaker";
+import { Deadline, DeadlineExceededError } from "@/lib/deadline";
+
+import { complianceRulesetVersion, createComplianceScreen } from "./compliance";
+import { lookupPoint, lookupZip, normalizePlaceName } from "./geo";
+import { enrichLocalPlaces, whyLocalsGo } from "./enrichment";
+import {
+  fetchLocalPlaces,
+  groupPlacesByTier,
+  matchKnownAnchors,
+  summarizePlace,
+  verifyAnchors,
+} from "./places";
+import {
+  attributeBrief,
+  keepBucketProvenance,
+  keepProvenance,
+  SUMMARY_KEYS,
+  TEMPLATED,
+} from "./provenance";
+import { emptyStrategicBuckets, fetchStrategicContext } from "./strategic";
+import {
+  buildDeterministicSynthesis,
+  buildSummaryCard,
+  synthesizeWithFallbacks,
+  type SynthesisPartial,
+} from "./synthesis";
+import type {
+  ContextBucketKey,
+  GeoLocation,
+  GrokAnchor,
+  LocalPlace,
+  PlaceTierGroup,
+  RapportSummary,
+  RapportTarget,
+  StrategicContextBuckets,
+  ZipRapportResponse,
+} from "./types";
+
+/** Progress events emitted while a brief is built, in roughly this order. */
+export type RapportEvent =
+  | { event: "geo"; data: GeoLocation }
+  | {
+      event: "places";
+      data: { local_places: LocalPlace[]; place_tiers: PlaceTierGroup[]; enriched: boolean };
+    }
+  | { event: "strategic"; data: { strategic_context: StrategicContextBuckets } }
+  | { event: "anchors"; data: { grok_anchors: GrokAnchor[] } }
+  | { event: "summary"; data: { summary_card: Partial<RapportSummary> } }
+  | { event: "knowledge"; data: { bucket: ContextBucketKey; sentences: string[] } };
+
+type BuildOptions = {
+  onEvent?: (event: RapportEvent) => void;
+};
+
+const CACHE_TTL_MS =
+  (Number(process.env.CACHE_TTL_SECONDS) || 6 * 60 * 60) * 1000;
+const CACHE_STALE_MS =
+  (Number(process.env.CACHE_STALE_SECONDS) || 24 * 60 * 60) * 1000;
+const CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 500;
+
+// One budget for a whole build. Context gathering is cut off early enough to
+// leave the model and anchor verification their share of it, but always gets
+// at least half; the later shares shrink together when they would take more.
+const RAPPORT_DEADLINE_MS = Number(process.env.RAPPORT_DEADLINE_MS) || 30000;
+const GEO_BUDGET_MS = 8000;
+const [LLM_RESERVE_MS, ANCHOR_VERIFY_RESERVE_MS] = (() => {
+  const llm = Number(process.env.RAPPORT_LLM_BUDGET_MS) || 15000;
+  const verify = 4000;
+  const scale = Math.min(1, RAPPORT_DEADLINE_MS / 2 / (llm + verify));
+  return [llm * scale, verify * scale];
+})();
+
+const rapportCache = createTieredCache<ZipRapportResponse>({
+  namespace: "zip",
+  version: 5,
+  ttlMs: CACHE_TTL_MS,
+  staleMs: CACHE_STALE_MS,
+  maxEntries: CACHE_MAX_ENTRIES,
+});
+
+// Briefs for a chosen place are cached apart from the ZIP's default brief;
+// point briefs are keyed by their (already rounded) coordinates.
+function rapportKey(target: RapportTarget) {
+  if (!("zip" in target)) {
+    return `@${target.latitude},${target.longitude}`;
+  }
+  const normalized = target.place ? normalizePlaceName(target.place) : "";
+  return normalized ? `${target.zip}:${normalized.replace(/ /g, "-")}` : target.zip;
+}
+
+function lookupTarget(target: RapportTarget, signal?: AbortSignal) {
+  return "zip" in target
+    ? lookupZip(target.zip, target.place, signal)
+    : lookupPoint(target.latitude, target.longitude, signal);
+}
+
+// Sources a brief silently goes without while their breaker is open.
+const CONTEXT_UPSTREAMS: Array<{ upstream: Upstream; missing: string }> = [
+  { upstream: "duckduckgo", missing: "DuckDuckGo is unavailable, so search context may be missing." },
+  { upstream: "wikipedia", missing: "Wikipedia is unavailable, so search context may be thin." },
+  { upstream: "overpass", missing: "Overpass is unavailable, so nearby places may be missing." },
+];
+
+// Degraded briefs are served but not cached so the next lookup retries the
+// model and any upstream that was skipped.
+const isCacheable = (payload: ZipRapportResponse) => !payload.degraded;
+
+// Briefs cached under an earlier rule set are screened again before they are
+// served, so rule edits apply without waiting for the cache to turn over.
+function applyCurrentRules(payload: ZipRapportResponse): ZipRapportResponse {
+  const previous = payload.compliance;
+  if (previous && previous.ruleset_version === complianceRulesetVersion()) {
+    return payload;
+  }
+
+  const screen = createComplianceScreen();
+  const strategicContext = screen.strategic(payload.raw_supporting_data.strategic_context);
+  const knowledge = screen.knowledge(payload.knowledge_brief);
+  const anchors = screen.anchors(payload.grok_anchors ?? []);
+  const places = screen.places(payload.raw_supporting_data.local_places);
+  const summary = screen.summary(payload.summary_card);
+  const report = screen.report();
+  const provenance = payload.provenance;
+  return {
+    ...payload,
+    summary_card: buildSummaryCard(summary, payload.city, strategicContext, anchors, places),
+    knowledge_brief: knowledge,
+    grok_anchors: anchors,
+    raw_supporting_data: {
+      ...payload.raw_supporting_data,
+      strategic_context: strategicContext,
+      local_places: places,
+      place_tiers: groupPlacesByTier(places),
+    },
+    compliance: {
+      ...report,
+      redacted: report.redacted + (previous?.redacted ?? 0),
+      dropped: report.dropped + (previous?.dropped ?? 0),
+      findings: [...(previous?.findings ?? []), ...report.findings],
+    },
+    provenance: {
+      summary_card: Object.fromEntries(
+        SUMMARY_KEYS.map((key) => [key, summary[key] ? provenance.summary_card[key] : TEMPLATED])
+      ) as ZipRapportResponse["provenance"]["summary_card"],
+      knowledge_brief: keepBucketProvenance(provenance.knowledge_brief, "knowledge_brief", screen.kept),
+      grok_anchors: keepProvenance(provenance.grok_anchors, screen.kept("grok_anchors")) ?? [],
+      strategic_context: keepBucketProvenance(
+        provenance.strategic_context,
+        "strategic_context",
+        screen.kept
+      ),
+    },
+  };
+}
+
+type InflightBuild = {
+  promise: Promise<ZipRapportResponse | null>;
+  listeners: Set<(event: RapportEvent) => void>;
+  history: RapportEvent[];
+};
+
+// One build per target at a time. Late joiners replay the events emitted so far
+// and then follow along, so streaming callers still see every stage.
+const inflightBuilds = new Map<string, InflightBuild>();
+
+function startBuild(key: string, target: RapportTarget): InflightBuild {
+  const listeners = new Set<(event: RapportEvent) => void>();
+  const history: RapportEvent[] = [];
+  const broadcast = (event: RapportEvent) => {
+    history.push(event);
+    listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn("Rapport event listener failed:", error);
+      }
+    });
+  };
+
+  const promise = assembleRapport(target, { onEvent: broadcast })
+    .then(async (payload) => {
+      if (payload && isCacheable(payload)) {
+        await rapportCache.write(key, payload);
+      }
+      return payload;
+    })
+    .finally(() => {
+      // Settled builds leave the map right away, so a failure is only seen by
+      // callers already waiting and the next request starts a fresh build.
+      if (inflightBuilds.get(key) === build) {
+        inflightBuilds.delete(key);
+      }
+    });
+
+  const build: InflightBuild = { promise, listeners, history };
+  inflightBuilds.set(key, build);
+  return build;
+}
+
+/**
+ * Resolves a validated ZIP (and optional place) or point to a brief. Fresh
+ * cache entries are returned as is; stale ones are returned immediately while
+ * a background refresh runs. Returns null when the target does not resolve
+ * and throws `UnknownPlaceError` when `place` is not one of the ZIP's
+ * candidates. Concurrent misses for one target share a single build;
+ * `onEvent` only fires when a build is running.
+ */
+export async function buildRapport(
+  target: RapportTarget,
+  options: BuildOptions = {}
+): Promise<ZipRapportResponse | null> {
+  const { onEvent } = options;
+  const key = rapportKey(target);
+  const cached = await rapportCache.read(key);
+  if (cached) {
+    if (cached.status === "stale") {
+      rapportCache.refreshInBackground(key, () => assembleRapport(target), isCacheable);
+    }
+    return {
+      ...applyCurrentRules(cached.value),
+      cache_status: cached.status,
+      circuit_breakers: circuitBreakerStatuses(),
+    };
+  }
+
+  const build = inflightBuilds.get(key) ?? startBuild(key, target);
+  if (onEvent) {
+    build.history.forEach(onEvent);
+    build.listeners.add(onEvent);
+  }
+  try {
+    return await build.promise;
+  } finally {
+    if (onEvent) {
+      build.listeners.delete(onEvent);
+    }
+  }
+}
+
+/**
+ * Runs the full lookup for a target as stages sharing one deadline
+ * (`RAPPORT_DEADLINE_MS`): geo first, then strategic context alongside local
+ * places and their enrichment, then LLM synthesis and anchor verification.
+ * The context stages are cut off early enough to leave the model its budget,
+ * and the model gets whatever context was ready by then. Search snippets are
+ * screened against the compliance rules before the model or the stream sees
+ * them, and the synthesis is screened before it is returned.
+ */
+async function assembleRapport(
+  target: RapportTarget,
+  { onEvent }: BuildOptions = {}
+): Promise<ZipRapportResponse | null> {
+  const deadline = new Deadline(RAPPORT_DEADLINE_MS);
+  const geo = await deadline.stage("geo", (signal) => lookupTarget(target, signal), {
+    budgetMs: GEO_BUDGET_MS,
+    fallback: (error) => {
+      throw error instanceof DeadlineExceededError ? new Error("Geo lookup timed out.") : error;
+    },
+  });
+  if (!geo) {
+    return null;
+  }
+  onEvent?.({ event: "geo", data: geo });
+
+  const screen = createComplianceScreen();
+  // Streamed partials get their own screen so the report only counts the
+  // final synthesis once.
+  const preview = createComplianceScreen();
+  const contextReserveMs = LLM_RESERVE_MS + ANCHOR_VERIFY_RESERVE_MS;
+
+  const [strategic, enhancedPlaces] = await Promise.all([
+    deadline
+      .stage(
+        "strategic",
+        (signal) =>
+          fetchStrategicContext(
+            { city: geo.city, state: geo.state, zip: geo.zip, county: geo.county },
+            signal
+          ),
+        {
+          reserveMs: contextReserveMs,
+          fallback: () => ({ buckets: emptyStrategicBuckets(), provenance: {} }),
+        }
+      )
+      .then((found) => {
+        const buckets = screen.strategic(found.buckets);
+        onEvent?.({ event: "strategic", data: { strategic_context: buckets } });
+        return {
+          buckets,
+          provenance: keepBucketProvenance(found.provenance, "strategic_context", screen.kept),
+        };
+      }),
+    // Enrichment only needs the places, so it starts without waiting on the
+    // strategic queries.
+    deadline
+      .stage(
+        "places",
+        (signal) => fetchLocalPlaces(geo.latitude, geo.longitude, { signal }),
+        {
+          reserveMs: contextReserveMs,
+          fallback: () => [],
+        }
+      )
+      .then((found) => {
+        const unenriched = preview.places(found);
+        onEvent?.({
+          event: "places",
+          data: { local_places: unenriched, place_tiers: groupPlacesByTier(unenriched), enriched: false },
+        });
+        return deadline.stage(
+          "enrichment",
+          (signal) => enrichLocalPlaces(found, geo.city, geo.state, signal),
+          {
+            reserveMs: contextReserveMs,
+            fallback: () =>
+              found.map((place) => ({
+                ...place,
+                summary: summarizePlace(place),
+                summary_source: null,
+                why_locals_go: whyLocalsGo(place),
+              })),
+          }
+        );
+      })
+      .then((described) => {
+        const enriched = screen.places(described);
+        onEvent?.({
+          event: "places",
+          data: { local_places: enriched, place_tiers: groupPlacesByTier(enriched), enriched: true },
+        });
+        return enriched;
+      }),
+  ]);
+
+  const { buckets: strategicContext, provenance: strategicProvenance } = strategic;
+
+  const anchorSpots = enhancedPlaces.slice(0, 6).map((place) => ({
+    name: place.name,
+    category: place.category,
+    distance_miles: place.distance_miles,
+    url: place.url,
+    summary: place.summary,
+  }));
+
+  const context = {
+    location: {
+      zip: geo.zip,
+      city: geo.city,
+      state: geo.state,
+      neighborhood: geo.neighborhood,
+      county: geo.county,
+      metro_area: geo.cbsa_name,
+      coordinates:
+        typeof geo.latitude === "number" && typeof geo.longitude === "number"
+          ? { latitude: geo.latitude, longitude: geo.longitude }
+          : null,
+    },
+    strategic_context: strategicContext,
+    anchor_spots: anchorSpots,
+  };
+
+  const onPartial: ((partial: SynthesisPartial) => void) | undefined = onEvent
+    ? (partial) => {
+        if (partial.kind === "anchors") {
+          onEvent({ event: "anchors", data: { grok_anchors: preview.anchors(partial.anchors) } });
+        } else if (partial.kind === "summary") {
+          onEvent({ event: "summary", data: { summary_card: preview.summary(partial.summary) } });
+        } else {
+          const sentences = preview.knowledge({ [partial.bucket]: partial.sentences })[partial.bucket];
+          if (sentences) {
+            onEvent({ event: "knowledge", data: { bucket: partial.bucket, sentences } });
+          }
+        }
+      }
+    : undefined;
+  const { synthesis, degradedReason } = await deadline.stage(
+    "llm",
+    (signal) =>
+      synthesizeWithFallbacks(context, strategicContext, enhancedPlaces, onPartial, { signal }),
+    {
+      reserveMs: ANCHOR_VERIFY_RESERVE_MS,
+      fallback: (error) => ({
+        synthesis: buildDeterministicSynthesis(strategicContext, enhancedPlaces),
+        degradedReason: `No model answered in time, so this brief was assembled from live search and map results. ${
+          error instanceof Error ? error.message : ""
+        }`.trim(),
+      }),
+    }
+  );
+  const knowledge = screen.knowledge(synthesis.knowledge);
+  const screenedAnchors = screen.anchors(synthesis.anchors);
+  const anchors = await deadline.stage(
+    "anchor_verification",
+    (signal) => verifyAnchors(screenedAnchors, geo.latitude, geo.longitude, enhancedPlaces, signal),
+    { fallback: () => matchKnownAnchors(screenedAnchors, enhancedPlaces) }
+  );
+  onEvent?.({ event: "anchors", data: { grok_anchors: anchors } });
+  const summary = screen.summary(synthesis.summary);
+  const summaryCard = buildSummaryCard(summary, geo.city, strategicContext, anchors, enhancedPlaces);
+
+  const breakers = circuitBreakerStatuses();
+  const skipped = CONTEXT_UPSTREAMS.filter(({ upstream }) =>
+    breakers.some((breaker) => breaker.upstream === upstream && breaker.state !== "closed")
+  ).map(({ missing }) => missing);
+  const degradedReasons = [...skipped, ...(degradedReason ? [degradedReason] : [])];
+
+  const payload: ZipRapportResponse = {
+    zip: geo.zip,
+    city: geo.city,
+    state: geo.state,
+    generated_at: new Date().toISOString(),
+    cache_status: "miss",
+    location: geo,
+    degraded: degradedReasons.length > 0,
+    degraded_reason: degradedReasons.length ? degradedReasons.join(" ") : null,
+    summary_card: summaryCard,
+    knowledge_brief: knowledge,
+    grok_anchors: anchors,
+    raw_supporting_data: {
+      strategic_context: strategicContext,
+      local_places: enhancedPlaces,
+      place_tiers: groupPlacesByTier(enhancedPlaces),
+    },
+    compliance: screen.report(),
+    provenance: attributeBrief({
+      strategic: strategicContext,
+      strategicProvenance,
+      places: enhancedPlaces,
+      knowledge,
+      anchors,
+      summary: summaryCard,
+      templatedHooks: SUMMARY_KEYS.filter((key) => !summary[key]?.trim()),
+    }),
+    circuit_breakers: breakers,
+    debug: deadline.report(),
+  };
+
+  return payload;
+}
@@ -0,0 +1,429 @@
+import { circuitBreaker, isDeliberateSkip } from "@/lib/circuit-breaker";
+import { mapWithConcurrency } from "@/lib/http";
+import { haversineMiles } from "@/lib/geo";
+
+import { nominatimUrl, searchNominatim } from "./nominatim";
+import {
+  buildAroundQuery,
+  matchesFilter,
+  runOverpassQuery,
+  type OverpassElement,
+  type TagFilter,
+} from "./overpass";
+import type { GrokAnchor, LocalPlace, PlaceTier, PlaceTierGroup } from "./types";
+
+export type AnchorVerificationMode = "flag" | "drop" | "off";
+
+const ANCHOR_VERIFICATION: AnchorVerificationMode = (() => {
+  const mode = process.env.ANCHOR_VERIFICATION?.trim().toLowerCase();
+  return mode === "drop" || mode === "off" ? mode : "flag";
+})();
+const ANCHOR_VERIFY_RADIUS_MILES = Number(process.env.ANCHOR_VERIFY_RADIUS_MILES) || 30;
+
+// Roughly 69 miles per degree of latitude.
+const MILES_PER_DEGREE = 69;
+
+function buildViewbox(lat: number, lon: number, delta: number) {
+  return `${lon - delta},${lat + delta},${lon + delta},${lat - delta}`;
+}
+
+function osmIdentity(item: any) {
+  return item?.osm_type && item?.osm_id ? `${item.osm_type}/${item.osm_id}` : null;
+}
+
+type PlaceCategory = {
+  label: string;
+  /** Any one of these tag sets puts an element in the category. */
+  filters: TagFilter[];
+};
+
+const category = (label: string, ...filters: TagFilter[]): PlaceCategory => ({ label, filters });
+
+const PARK = category("Park", { leisure: "park" });
+const LAKE = category("Lake", { natural: "water", water: "lake" }, { natural: "water", water: "reservoir" });
+const ZOO = category("Zoo", { tourism: "zoo" });
+
+type PlaceTierSettings = {
+  tier: PlaceTier;
+  label: string;
+  radiusMiles: number;
+  /** Most places the tier keeps. */
+  limit: number;
+  categories: PlaceCategory[];
+};
+
+// Everyday spots within a walk or short drive, then the destinations a
+// neighbor drives across town for, then weekend outings. A category may
+// appear in several tiers; each place lands in the innermost one that lists
+// its category and reaches it.
+const PLACE_TIER_SETTINGS: PlaceTierSettings[] = [
+  {
+    tier: "around_the_corner",
+    label: "Around the corner",
+    radiusMiles: Number(process.env.PLACE_TIER_CORNER_MILES) || 2,
+    limit: 6,
+    categories: [
+      PARK,
+      category("Playground", { leisure: "playground" }),
+      category("Coffee Shop", { amenity: "cafe" }),
+      category("Bakery", { shop: "bakery" }),
+      category("Library", { amenity: "library" }),
+      category("Community Hub", { amenity: "community_centre" }),
+    ],
+  },
+  {
+    tier: "around_town",
+    label: "Around town",
+    radiusMiles: Number(process.env.PLACE_TIER_TOWN_MILES) || 10,
+    limit: 9,
+    categories: [
+      PARK,
+      category("Trail", { route: "hiking" }, { route: "foot" }),
+      LAKE,
+      category("Stadium", { leisure: "stadium" }),
+      category("Rec Center", { leisure: "sports_centre" }),
+      category("Golf Course", { leisure: "golf_course" }),
+      category("Museum", { tourism: "museum" }),
+      ZOO,
+      category("Market", { amenity: "marketplace" }),
+      category("Shopping Destination", { shop: "mall" }),
+      category("Brewery", { craft: "brewery" }, { amenity: "pub", microbrewery: "yes" }),
+    ],
+  },
+  {
+    tier: "day_trip",
+    label: "Day trip",
+    radiusMiles: Number(process.env.PLACE_TIER_DAY_TRIP_MILES) || 60,
+    limit: 6,
+    categories: [
+      category("National Park", { boundary: "national_park" }),
+      category("Nature Reserve", { leisure: "nature_reserve" }),
+      LAKE,
+      ZOO,
+      category("Theme Park", { tourism: "theme_park" }),
+      category("Ski Area", { landuse: "winter_sports" }),
+    ],
+  },
+];
+
+const METERS_PER_MILE = 1609.344;
+// Elements fetched per category before ranking; Overpass returns them in id
+// order, which favors long-established places.
+const CANDIDATES_PER_CATEGORY = 60;
+const PLACES_PER_CATEGORY = 3;
+
+function wikipediaUrl(tag: string | undefined) {
+  const match = tag?.match(/^([a-z-]+):(.+)$/);
+  return match ? `https://${match[1]}.wikipedia.org/wiki/${encodeURIComponent(match[2].replace(/ /g, "_"))}` : null;
+}
+
+// How notable a place looks from its tags: encyclopedia links and a website
+// count most, then how thoroughly it has been mapped.
+function prominenceOf(element: OverpassElement) {
+  const tags = element.tags ?? {};
+  let score = 0;
+  if (tags.wikipedia) score += 3;
+  if (tags.wikidata) score += 2;
+  if (tags.website || tags["contact:website"]) score += 1;
+  if (tags.opening_hours) score += 0.5;
+  if (element.type === "relation") score += 1;
+  score += Math.min(Object.keys(tags).length, 20) / 10;
+  return Math.round(score * 10) / 10;
+}
+
+function toLocalPlace(
+  element: OverpassElement,
+  category: PlaceCategory,
+  tier: PlaceTierSettings,
+  latitude: number,
+  longitude: number
+): LocalPlace | null {
+  const tags = element.tags ?? {};
+  const name = tags.name?.trim();
+  const lat = element.lat ?? element.center?.lat;
+  const lon = element.lon ?? element.center?.lon;
+  if (!name || typeof lat !== "number" || typeof lon !== "number") {
+    return null;
+  }
+  const website = tags.website || tags["contact:website"] || null;
+  const wikipedia = wikipediaUrl(tags.wikipedia);
+  return {
+    name,
+    category: category.label,
+    distance_miles: Math.round(haversineMiles(latitude, longitude, lat, lon) * 10) / 10,
+    url: wikipedia || website,
+    osm_id: `${element.type}/${element.id}`,
+    opening_hours: tags.opening_hours || null,
+    description: tags.description?.trim() || null,
+    website,
+    wikipedia,
+    prominence: prominenceOf(element),
+    tier: tier.tier,
+  };
+}
+
+// A place's rank is halved a third of the way out to its tier's edge, so
+// prominence matters more the farther a tier reaches.
+const rankOf = (place: LocalPlace, tier: PlaceTierSettings) =>
+  (place.prominence ?? 0) / (1 + (3 * (place.distance_miles ?? tier.radiusMiles)) / tier.radiusMiles);
+
+/**
+ * Finds named places around a point by their OpenStreetMap tags with one
+ * Overpass query per distance tier, then ranks each tier's places by
+ * prominence and distance. Each category keeps its best few so one dense
+ * category cannot fill a tier. Tiers are interleaved, best first, so callers
+ * that take the first few places get some from each. Aborting `signal`
+ * cancels the queries still running; the tiers already found are kept.
+ */
+export async function fetchLocalPlaces(
+  latitude: number | null,
+  longitude: number | null,
+  { signal }: { signal?: AbortSignal } = {}
+) {
+  if (typeof latitude !== "number" || typeof longitude !== "number") {
+    return [];
+  }
+  if (!circuitBreaker("overpass").available) {
+    return [];
+  }
+
+  // Separate queries, so a slow scan of the wide day-trip radius cannot take
+  // the nearer tiers down with it.
+  const results = await Promise.allSettled(
+    PLACE_TIER_SETTINGS.map((tier) =>
+      runOverpassQuery(
+        buildAroundQuery(
+          tier.categories.map((candidate) => ({
+            filters: candidate.filters,
+            radiusMeters: tier.radiusMiles * METERS_PER_MILE,
+          })),
+          latitude,
+          longitude,
+          CANDIDATES_PER_CATEGORY
+        ),
+        signal
+      )
+    )
+  );
+  const elements: OverpassElement[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      elements.push(...result.value);
+    } else if (!isDeliberateSkip(result.reason)) {
+      console.warn(`Overpass ${PLACE_TIER_SETTINGS[index].tier} query failed:`, result.reason);
+    }
+  });
+
+  // Keyed by tier and category label. Within a tier, an element matching
+  // several categories goes to the first listed.
+  const candidates = new Map<string, LocalPlace[]>();
+  const seenElements = new Set<string>();
+  for (const element of elements) {
+    const key = `${element.type}/${element.id}`;
+    if (seenElements.has(key)) continue;
+    seenElements.add(key);
+    for (const tier of PLACE_TIER_SETTINGS) {
+      const match = tier.categories.find((candidate) =>
+        candidate.filters.some((filter) => matchesFilter(element.tags ?? {}, filter))
+      );
+      const place = match && toLocalPlace(element, match, tier, latitude, longitude);
+      if (!place || (place.distance_miles ?? Infinity) > tier.radiusMiles) continue;
+      const bucket = `${tier.tier}:${match.label}`;
+      candidates.set(bucket, [...(candidates.get(bucket) ?? []), place]);
+      break;
+    }
+  }
+
+  const seenNames = new Set<string>();
+  const tiers = PLACE_TIER_SETTINGS.map((tier) => {
+    const kept: LocalPlace[] = [];
+    for (const { label } of tier.categories) {
+      const ranked = (candidates.get(`${tier.tier}:${label}`) ?? []).sort(
+        (a, b) => rankOf(b, tier) - rankOf(a, tier)
+      );
+      let count = 0;
+      for (const place of ranked) {
+        // Trails and parks are often mapped as several pieces sharing a name.
+        const normalized = normalizeName(place.name);
+        if (seenNames.has(normalized)) continue;
+        seenNames.add(normalized);
+        kept.push(place);
+        count += 1;
+        if (count >= PLACES_PER_CATEGORY) break;
+      }
+    }
+    return kept.sort((a, b) => rankOf(b, tier) - rankOf(a, tier)).slice(0, tier.limit);
+  });
+
+  const interleaved: LocalPlace[] = [];
+  const longest = Math.max(...tiers.map((places) => places.length));
+  for (let index = 0; index < longest; index += 1) {
+    for (const places of tiers) {
+      if (index < places.length) interleaved.push(places[index]);
+    }
+  }
+  return interleaved;
+}
+
+/** Splits places into their distance tiers, keeping each tier's order. */
+export function groupPlacesByTier(places: LocalPlace[]): PlaceTierGroup[] {
+  return PLACE_TIER_SETTINGS.map(({ tier, label, radiusMiles }) => ({
+    tier,
+    label,
+    radius_miles: radiusMiles,
+    places: places.filter((place) => place.tier === tier),
+  }));
+}
+
+export function summarizePlace(place: LocalPlace) {
+  const descriptors: string[] = [];
+  if (place.category) {
+    descriptors.push(place.category.toLowerCase());
+  }
+  if (typeof place.distance_miles === "number") {
+    descriptors.push(`${place.distance_miles} miles from the ZIP center`);
+  }
+  const descriptorText = descriptors.length ? descriptors.join(", ") : "local favorite";
+  return `${place.name} is a ${descriptorText}${place.url ? " that residents often mention online." : "."}`;
+}
+
+export const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\bthe\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// A result matches when one name contains the other ("Old Town" vs "Old Town
+// Scottsdale") or they share most of the anchor's words.
+function namesMatch(anchorName: string, osmName: string) {
+  const anchor = normalizeName(anchorName);
+  const osm = normalizeName(osmName);
+  if (!anchor || !osm) return false;
+  if (` ${osm} `.includes(` ${anchor} `) || ` ${anchor} `.includes(` ${osm} `)) return true;
+  const anchorWords = anchor.split(" ");
+  const osmWords = new Set(osm.split(" "));
+  const shared = anchorWords.filter((word) => osmWords.has(word)).length;
+  return anchorWords.length >= 2 && shared / anchorWords.length >= 0.75;
+}
+
+/**
+ * Marks anchors that name a place the pipeline already found within
+ * `ANCHOR_VERIFY_RADIUS_MILES` as verified, the same radius Nominatim is
+ * asked about. The rest get `verified: null` until Nominatim has been asked.
+ */
+export function matchKnownAnchors(anchors: GrokAnchor[], places: LocalPlace[]): GrokAnchor[] {
+  const nearby = places.filter(
+    (place) =>
+      place.osm_id &&
+      place.distance_miles != null &&
+      place.distance_miles <= ANCHOR_VERIFY_RADIUS_MILES
+  );
+  return anchors.map((anchor) => {
+    const known = nearby.find((place) => namesMatch(anchor.name, place.name));
+    return known
+      ? {
+          ...anchor,
+          verified: true,
+          distance_miles: known.distance_miles ?? null,
+          osm_id: known.osm_id ?? null,
+          osm_name: known.name,
+        }
+      : { ...anchor, verified: null };
+  });
+}
+
+async function verifyAnchor(
+  anchor: GrokAnchor,
+  latitude: number,
+  longitude: number,
+  signal?: AbortSignal
+): Promise<GrokAnchor> {
+  const url = nominatimUrl("search");
+  url.searchParams.set("q", anchor.name);
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("limit", "5");
+  url.searchParams.set(
+    "viewbox",
+    buildViewbox(latitude, longitude, ANCHOR_VERIFY_RADIUS_MILES / MILES_PER_DEGREE)
+  );
+  url.searchParams.set("bounded", "1");
+  try {
+    const results = await searchNominatim(url, { strict: true, signal });
+    const matches = results
+      .map((item) => {
+        const itemLat = Number.parseFloat(item.lat);
+        const itemLon = Number.parseFloat(item.lon);
+        const name =
+          typeof item?.name === "string" && item.name
+            ? item.name
+            : String(item?.display_name ?? "").split(",")[0];
+        const distance =
+          Number.isFinite(itemLat) && Number.isFinite(itemLon)
+            ? Math.round(haversineMiles(latitude, longitude, itemLat, itemLon) * 10) / 10
+            : null;
+        return { item, name, distance };
+      })
+      .filter(
+        ({ name, distance }) =>
+          namesMatch(anchor.name, name) &&
+          distance !== null &&
+          distance <= ANCHOR_VERIFY_RADIUS_MILES
+      )
+      .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
+
+    const match = matches[0];
+    return match
+      ? {
+          ...anchor,
+          verified: true,
+          distance_miles: match.distance,
+          osm_id: osmIdentity(match.item),
+          osm_name: match.name,
+        }
+      : { ...anchor, verified: false, distance_miles: null, osm_id: null, osm_name: null };
+  } catch (error) {
+    if (!isDeliberateSkip(error)) {
+      console.warn(`Anchor verification failed for ${anchor.name}:`, error);
+    }
+    return { ...anchor, verified: null, distance_miles: null, osm_id: null, osm_name: null };
+  }
+}
+
+/**
+ * Checks each anchor against OpenStreetMap within `ANCHOR_VERIFY_RADIUS_MILES`
+ * of the brief's center and records what it matched. Anchors are first
+ * matched against `places`, which are already in memory, so only the rest
+ * wait on Nominatim's one-request-a-second limit. Anchors OSM has never
+ * heard of are flagged, or removed when `ANCHOR_VERIFICATION=drop`; anchors
+ * that could not be checked, including those cut off by `signal`, are kept
+ * either way.
+ */
+export async function verifyAnchors(
+  anchors: GrokAnchor[],
+  latitude: number | null,
+  longitude: number | null,
+  places: LocalPlace[],
+  signal?: AbortSignal
+) {
+  if (ANCHOR_VERIFICATION === "off" || !anchors.length) {
+    return anchors;
+  }
+  const known = matchKnownAnchors(anchors, places);
+  if (
+    typeof latitude !== "number" ||
+    typeof longitude !== "number" ||
+    !circuitBreaker("nominatim").available
+  ) {
+    return known;
+  }
+
+  const verified = await mapWithConcurrency(known, 2, (anchor) =>
+    anchor.verified ? Promise.resolve(anchor) : verifyAnchor(anchor, latitude, longitude, signal)
+  );
+  return ANCHOR_VERIFICATION === "drop"
+    ? verified.filter((anchor) => anchor.verified !== false)
+    : verified;
+}
@@ -0,0 +1,243 @@
+import {
+  CONTEXT_BUCKET_KEYS,
+  type BriefProvenance,
+  type ContextBucketKey,
+  type GrokAnchor,
+  type KnowledgeBrief,
+  type LocalPlace,
+  type Provenance,
+  type RapportSummary,
+  type StrategicContextBuckets,
+} from "./types";
+
+export const SUMMARY_KEYS: Array<keyof RapportSummary> = [
+  "local_lifestyle_hook",
+  "equity_or_payment_hook",
+  "intent_probe",
+];
+
+// Share of a sentence's content words that must appear in one snippet before
+// the sentence counts as a paraphrase of it.
+const PARAPHRASE_OVERLAP = 0.6;
+
+const STOPWORDS = new Set([
+  "about", "after", "also", "area", "around", "because", "been", "being", "from", "have",
+  "into", "just", "like", "locals", "love", "many", "more", "most", "near", "over", "residents",
+  "some", "than", "that", "their", "them", "there", "these", "they", "this", "those", "through",
+  "very", "what", "when", "where", "which", "while", "with", "within", "your",
+]);
+
+const MODEL_ONLY: Provenance = {
+  source: "model",
+  query: null,
+  osm_id: null,
+  url: null,
+  confidence: "low",
+  model_only: true,
+};
+
+export const TEMPLATED: Provenance = {
+  source: "template",
+  query: null,
+  osm_id: null,
+  url: null,
+  confidence: "high",
+  model_only: false,
+};
+
+/** A search snippet with a source page is quoted verbatim; without one it is DuckDuckGo's own answer. */
+export function searchProvenance(query: string, url: string | null): Provenance {
+  return {
+    source: "search",
+    query,
+    osm_id: null,
+    url,
+    confidence: url ? "high" : "medium",
+    model_only: false,
+  };
+}
+
+/** Wikipedia text is quoted from the article. */
+export function wikipediaProvenance(url: string | null): Provenance {
+  return {
+    source: "wikipedia",
+    query: null,
+    osm_id: null,
+    url,
+    confidence: "high",
+    model_only: false,
+  };
+}
+
+// Where an enriched place summary came from.
+function placeSummaryProvenance(place: LocalPlace): Provenance | null {
+  const origin = place.summary_source;
+  if (!origin) return null;
+  if (origin.kind === "wikipedia") return wikipediaProvenance(origin.url);
+  if (origin.kind === "osm") return placeProvenance(place, "high");
+  return origin.query ? searchProvenance(origin.query, origin.url) : null;
+}
+
+function placeProvenance(
+  place: Pick<LocalPlace, "osm_id" | "url">,
+  confidence: Provenance["confidence"]
+): Provenance {
+  return {
+    source: "osm",
+    query: null,
+    osm_id: place.osm_id ?? null,
+    url: place.url ?? null,
+    confidence,
+    model_only: false,
+  };
+}
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+function contentWords(text: string) {
+  return new Set(
+    normalizeText(text)
+      .split(" ")
+      .filter((word) => word.length >= 4 && !STOPWORDS.has(word))
+  );
+}
+
+type Evidence = {
+  normalized: string;
+  words: Set<string>;
+  provenance: Provenance;
+};
+
+type AttributionInput = {
+  strategic: StrategicContextBuckets;
+  strategicProvenance: BriefProvenance["strategic_context"];
+  places: LocalPlace[];
+  knowledge: KnowledgeBrief;
+  anchors: GrokAnchor[];
+  summary: RapportSummary;
+  /** Hooks `buildSummaryCard` filled with its templated fallback. */
+  templatedHooks: Array<keyof RapportSummary>;
+};
+
+/**
+ * Works out where each knowledge sentence, anchor and summary hook came from
+ * by matching it against the snippets and places gathered for the brief.
+ * Verbatim snippets, exact place names and anchors verified on OpenStreetMap
+ * are high confidence; paraphrases and passing place mentions are medium;
+ * anything else is marked model-only.
+ */
+export function attributeBrief({
+  strategic,
+  strategicProvenance,
+  places,
+  knowledge,
+  anchors,
+  summary,
+  templatedHooks,
+}: AttributionInput): BriefProvenance {
+  const evidence: Evidence[] = [];
+  for (const key of CONTEXT_BUCKET_KEYS) {
+    strategic[key].forEach((text, index) => {
+      const provenance = strategicProvenance[key]?.[index];
+      if (provenance) {
+        evidence.push({ normalized: normalizeText(text), words: contentWords(text), provenance });
+      }
+    });
+  }
+  for (const place of places) {
+    const provenance = placeSummaryProvenance(place);
+    if (place.summary && provenance) {
+      evidence.push({
+        normalized: normalizeText(place.summary),
+        words: contentWords(place.summary),
+        provenance,
+      });
+    }
+  }
+  const namedPlaces = places
+    .map((place) => ({ place, normalized: normalizeText(place.name) }))
+    .filter(({ normalized }) => normalized.length >= 4);
+
+  const attributeText = (text: string): Provenance => {
+    const normalized = normalizeText(text);
+    const exact = evidence.find((item) => item.normalized === normalized);
+    if (exact) {
+      return exact.provenance;
+    }
+
+    const words = contentWords(text);
+    if (words.size >= 3) {
+      let best: { score: number; provenance: Provenance } | null = null;
+      for (const item of evidence) {
+        let shared = 0;
+        words.forEach((word) => {
+          if (item.words.has(word)) shared += 1;
+        });
+        const score = shared / words.size;
+        if (score >= PARAPHRASE_OVERLAP && (!best || score > best.score)) {
+          best = { score, provenance: item.provenance };
+        }
+      }
+      if (best) {
+        return { ...best.provenance, confidence: "medium" };
+      }
+    }
+
+    const mentioned = namedPlaces.find((candidate) =>
+      ` ${normalized} `.includes(` ${candidate.normalized} `)
+    );
+    return mentioned ? placeProvenance(mentioned.place, "medium") : MODEL_ONLY;
+  };
+
+  const knowledgeProvenance: BriefProvenance["knowledge_brief"] = {};
+  for (const key of CONTEXT_BUCKET_KEYS) {
+    const sentences = knowledge[key];
+    if (sentences?.length) {
+      knowledgeProvenance[key] = sentences.map(attributeText);
+    }
+  }
+
+  const summaryProvenance = {} as BriefProvenance["summary_card"];
+  for (const key of SUMMARY_KEYS) {
+    summaryProvenance[key] = templatedHooks.includes(key) ? TEMPLATED : attributeText(summary[key]);
+  }
+
+  return {
+    summary_card: summaryProvenance,
+    knowledge_brief: knowledgeProvenance,
+    grok_anchors: anchors.map((anchor) => {
+      const name = normalizeText(anchor.name);
+      const place = places.find((candidate) => normalizeText(candidate.name) === name);
+      if (place) {
+        return placeProvenance(place, "high");
+      }
+      if (anchor.verified && anchor.osm_id) {
+        return placeProvenance({ osm_id: anchor.osm_id }, "high");
+      }
+      return attributeText(anchor.summary);
+    }),
+    strategic_context: strategicProvenance,
+  };
+}
+
+/** Keeps the entries at `kept` (as reported by a compliance screen), or all when unknown. */
+export function keepProvenance(list: Provenance[] | undefined, kept: number[] | undefined) {
+  if (!list) return undefined;
+  return kept ? kept.map((index) => list[index] ?? MODEL_ONLY) : list;
+}
+
+export function keepBucketProvenance(
+  buckets: Partial<Record<ContextBucketKey, Provenance[]>>,
+  field: string,
+  kept: (field: string) => number[] | undefined
+) {
+  const result: Partial<Record<ContextBucketKey, Provenance[]>> = {};
+  for (const key of CONTEXT_BUCKET_KEYS) {
+    const list = keepProvenance(buckets[key], kept(`${field}.${key}`));
+    if (list?.length) {
+      result[key] = list;
+    }
+  }
+  return result;
+}
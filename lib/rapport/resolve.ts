@@ -0,0 +1,169 @@
+import { createTieredCache } from "@/lib/cache";
+import { findZipsByPlace, findZipsNear, getZipRecord } from "@/lib/gazetteer";
+
+import { lookupZip, normalizePlaceName, validateZip } from "./geo";
+import { nominatimUrl, parseNominatimAddress, searchNominatim } from "./nominatim";
+import type { ResolvedLocation } from "./types";
+
+const RESOLVE_TTL_MS =
+  (Number(process.env.RESOLVE_TTL_SECONDS) || 7 * 24 * 60 * 60) * 1000;
+
+const resolveCache = createTieredCache<ResolvedLocation[]>({
+  namespace: "resolve",
+  ttlMs: RESOLVE_TTL_MS,
+  staleMs: RESOLVE_TTL_MS,
+  maxEntries: 1000,
+});
+
+const CITY_TYPES = new Set(["city", "town", "village", "hamlet", "municipality"]);
+const NEIGHBORHOOD_TYPES = new Set([
+  "suburb",
+  "neighbourhood",
+  "quarter",
+  "city_district",
+  "residential",
+]);
+const ADDRESS_TYPES = new Set(["house", "building", "road"]);
+
+function classify(item: any): ResolvedLocation["kind"] {
+  const type = item?.addresstype ?? item?.type;
+  if (type === "postcode") return "zip";
+  if (CITY_TYPES.has(type)) return "city";
+  if (NEIGHBORHOOD_TYPES.has(type)) return "neighborhood";
+  if (item?.address?.house_number || ADDRESS_TYPES.has(type)) return "address";
+  return "place";
+}
+
+// The ZIP route can only brief a place name the ZIP is filed under.
+function zipListsPlace(zip: string, place: string) {
+  const record = getZipRecord(zip);
+  if (!record) return false;
+  const target = normalizePlaceName(place);
+  return [record.city, ...record.alternate_names].some(
+    (name) => normalizePlaceName(name) === target
+  );
+}
+
+async function resolveZipQuery(zip: string): Promise<ResolvedLocation[]> {
+  const geo = await lookupZip(zip);
+  if (!geo || typeof geo.latitude !== "number" || typeof geo.longitude !== "number") {
+    return [];
+  }
+  return [
+    {
+      label: `${geo.city}, ${geo.state} ${geo.zip}`,
+      kind: "zip",
+      zip: geo.zip,
+      city: geo.city,
+      state: geo.state,
+      latitude: geo.latitude,
+      longitude: geo.longitude,
+      target: { zip: geo.zip },
+    },
+  ];
+}
+
+// "Gilbert, AZ" is answered from the gazetteer without a network call.
+function resolveCityQuery(query: string): ResolvedLocation[] {
+  const match = query.match(/^(.+?),\s*([A-Za-z]{2})$/);
+  if (!match) return [];
+  const [record] = findZipsByPlace(match[1], match[2]);
+  if (!record) return [];
+  const city =
+    [record.city, ...record.alternate_names].find(
+      (name) => normalizePlaceName(name) === normalizePlaceName(match[1])
+    ) ?? record.city;
+  return [
+    {
+      label: `${city}, ${record.state}`,
+      kind: "city",
+      zip: record.zip,
+      city,
+      state: record.state,
+      latitude: record.latitude,
+      longitude: record.longitude,
+      target: { zip: record.zip, place: city },
+    },
+  ];
+}
+
+async function geocodeQuery(query: string): Promise<ResolvedLocation[]> {
+  const url = nominatimUrl("search");
+  url.searchParams.set("q", query);
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("addressdetails", "1");
+  url.searchParams.set("countrycodes", "us");
+  url.searchParams.set("limit", "5");
+  const data = await searchNominatim(url);
+
+  const results: ResolvedLocation[] = [];
+  const seen = new Set<string>();
+  for (const item of data) {
+    const latitude = Number.parseFloat(item?.lat);
+    const longitude = Number.parseFloat(item?.lon);
+    const address = parseNominatimAddress(item?.address);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !address.state) continue;
+
+    const zip =
+      address.zip ?? findZipsNear(latitude, longitude, { radiusMiles: 10, limit: 1 })[0]?.zip ?? null;
+    const city = address.city ?? (zip ? getZipRecord(zip)?.city : null);
+    if (!city) continue;
+
+    const kind = classify(item);
+    const name = typeof item?.name === "string" && item.name ? item.name : null;
+    const label = [name && name !== city ? name : null, city, `${address.state}${zip ? ` ${zip}` : ""}`]
+      .filter(Boolean)
+      .join(", ");
+    if (seen.has(label)) continue;
+    seen.add(label);
+
+    const briefByZip = zip && (kind === "zip" || (kind === "city" && zipListsPlace(zip, city)));
+    results.push({
+      label,
+      kind,
+      zip,
+      city,
+      state: address.state,
+      latitude,
+      longitude,
+      target: briefByZip
+        ? { zip, place: kind === "city" ? city : null }
+        : { latitude: Math.round(latitude * 1000) / 1000, longitude: Math.round(longitude * 1000) / 1000 },
+    });
+  }
+  return results;
+}
+
+/**
+ * Turns free text into candidate locations, best match first. ZIPs and
+ * "City, ST" are answered from the gazetteer; anything else (neighborhoods,
+ * landmarks, street addresses) is geocoded through Nominatim and cached.
+ * Each result names the brief to build: the ZIP route when a ZIP and place
+ * cover it exactly, otherwise the point route at the geocoded coordinates.
+ */
+export async function resolveLocation(query: string): Promise<ResolvedLocation[]> {
+  const trimmed = query.trim().replace(/\s+/g, " ");
+  if (validateZip(trimmed)) {
+    return resolveZipQuery(trimmed);
+  }
+
+  const local = resolveCityQuery(trimmed);
+  if (local.length) {
+    return local;
+  }
+
+  const key = normalizePlaceName(trimmed);
+  const cached = await resolveCache.read(key);
+  if (cached) {
+    if (cached.status === "stale") {
+      resolveCache.refreshInBackground(key, () => geocodeQuery(trimmed), (results) => results.length > 0);
+    }
+    return cached.value;
+  }
+  const results = await geocodeQuery(trimmed);
+  // Empty answers may be an upstream hiccup, so only real matches are kept.
+  if (results.length) {
+    await resolveCache.write(key, results);
+  }
+  return results;
+}
@@ -0,0 +1,421 @@
+import { createTieredCache, type TieredCache } from "@/lib/cache";
+import { isDeliberateSkip } from "@/lib/circuit-breaker";
+import { mapWithConcurrency } from "@/lib/http";
+import {
+  getSearchProviders,
+  type SearchLocation,
+  type SearchProvider,
+  type SearchProviderKind,
+  type SearchScope,
+  type SearchSnippet,
+} from "@/lib/search";
+
+import { searchProvenance, wikipediaProvenance } from "./provenance";
+import type { ContextBucketKey, Provenance, StrategicContextBuckets } from "./types";
+
+export type StrategicQueryConfig = {
+  key: ContextBucketKey;
+  templates: string[];
+  limit?: number;
+  /** Who to ask; answers fill the bucket in this order. Defaults to DuckDuckGo. */
+  providers?: SearchProviderKind[];
+  /** Wikipedia article sections that cover the bucket. */
+  sections?: string[];
+};
+
+export const STRATEGIC_QUERIES: StrategicQueryConfig[] = [
+  {
+    key: "state_identity",
+    templates: [
+      "How do residents describe the character of {state}? Mention pride points or what makes living there special.",
+      "Signature cultural traits or statewide identity markers people associate with {state}.",
+      "What do long-time residents love telling newcomers about {state}?",
+    ],
+    limit: 2,
+    providers: ["wikipedia", "duckduckgo"],
+    sections: ["Culture", "Geography"],
+  },
+  {
+    key: "state_trends",
+    templates: [
+      "What lifestyle or outdoor trends are residents across {state} excited about lately? Share vivid activities locals mention.",
+      "Popular weekend adventures {state} homeowners rave about lately.",
+      "Seasonal highlights or statewide events people across {state} keep talking about.",
+    ],
+    limit: 3,
+  },
+  {
+    key: "seasonal_rhythms",
+    templates: [
+      "What seasonal rhythms define life in {state}? Mention weather extremes and how locals adapt.",
+      "Traditions or rituals people in {state} follow as seasons shift (snowbirds, monsoon storms, summer nights).",
+      "How do homeowners in {state} prep their homes for upcoming seasons?",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Climate"],
+  },
+  {
+    key: "community_traditions",
+    templates: [
+      "Signature annual events, markets, or traditions in {city}, {state} that locals celebrate.",
+      "Upcoming community events or festivals residents in {city}, {state} are buzzing about.",
+      "Family-friendly or foodie-focused traditions unique to {city}, {state}.",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Festivals", "Events", "Annual"],
+  },
+  {
+    key: "iconic_destinations",
+    templates: [
+      "Iconic attractions or major destinations in or near {city}, {state} that locals brag about (theme parks, stadiums, landmarks).",
+      "Bucket-list spots around {city}, {state} that friends and family visit when they come to town.",
+      "Within an hour of {city}, {state}, what well-known attractions draw the biggest crowds?",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Attractions", "Tourism", "Points of interest", "Landmarks"],
+  },
+  {
+    key: "outdoor_showstoppers",
+    templates: [
+      "Scenic drives, lakes, mountains, or outdoor escapes near {city}, {state} that locals love for day trips.",
+      "Where do residents of {city}, {state} head when they want nature or a change of scenery without flying?",
+      "Popular golf courses, resorts, or hiking loops people in {city}, {state} keep talking about this season.",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Parks", "Recreation", "Outdoor"],
+  },
+  {
+    key: "neighborhood_archetypes",
+    templates: [
+      "Iconic neighborhoods or master-planned communities around {city}, {state} and what they are known for.",
+      "Up-and-coming corridors or historic districts near {city}, {state} that locals love to brag about.",
+      "Describe the vibe locals associate with neighborhoods near ZIP {zip}.",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Neighborhoods", "Neighbourhoods", "Communities", "Cityscape"],
+  },
+  {
+    key: "home_projects",
+    templates: [
+      "Homeowners in ZIP {zip} near {city}, {state}: what improvement or renovation projects are trending or commonly discussed?",
+      "What kinds of home upgrades or backyard projects are popular in ZIP {zip} these days, and why?",
+      "Any incentives or local contractors people mention when tackling projects around {city}, {state}?",
+    ],
+    limit: 2,
+  },
+  {
+    key: "economic_momentum",
+    templates: [
+      "Major employers, new campuses, or infrastructure projects shaping {city}, {state} right now.",
+      "What big developments (factories, tech hubs, hospitals) are in the pipeline around {city}, {state}?",
+      "Any headline-making investments or revitalization efforts near {city}, {state} that residents keep mentioning?",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Economy", "Employers", "Development"],
+  },
+  {
+    key: "population_growth",
+    templates: [
+      "Summarize population or growth trends for {city}, {state} or ZIP {zip}. Why are people moving there?",
+      "Recent migration or growth stats that show how {city}, {state} is changing.",
+      "How has the population around {city}, {state} shifted over the past few years?",
+    ],
+    limit: 2,
+  },
+  {
+    key: "desirability_factors",
+    templates: [
+      "Top reasons people choose to move to {city}, {state}—schools, lifestyle, cost of living, climate, etc.",
+      "What makes {city}, {state} desirable compared with surrounding areas?",
+      "Awards or rankings that highlight {city}, {state} as a great place to live.",
+    ],
+    limit: 3,
+  },
+  {
+    key: "sports_heat",
+    templates: [
+      "Sports teams, youth leagues, or game-day traditions people in {city}, {state} rally around lately.",
+      "Which local teams, rec leagues, or outdoor sports keep {city}, {state} residents fired up?",
+      "Any big wins, rivalry games, or upcoming tournaments locals are buzzing about in {city}, {state}.",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Sports"],
+  },
+  {
+    key: "food_and_drink",
+    templates: [
+      "Beloved local restaurants, cafes, or breweries in {city}, {state} that residents rave about.",
+      "Signature dishes or food experiences people insist visitors try in {city}, {state}.",
+      "Popular farmers markets, craft beverage spots, or foodie events in {city}, {state}.",
+    ],
+    limit: 3,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Cuisine", "Food", "Dining", "Restaurants"],
+  },
+  {
+    key: "civic_culture",
+    templates: [
+      "Museums, performing arts centers, or cultural institutions that define {city}, {state}.",
+      "Recent civic projects or community centers locals are excited about in {city}, {state}.",
+      "Where do people gather for arts, libraries, or community programs near {city}, {state}?",
+    ],
+    limit: 2,
+    providers: ["duckduckgo", "wikipedia"],
+    sections: ["Arts", "Culture", "Museums", "Libraries"],
+  },
+  {
+    key: "housing_signals",
+    templates: [
+      "Housing market signals around ZIP {zip}: home ages, new builds, or design styles locals mention.",
+      "Any chatter about inventory, price trends, or neighborhood transitions in {city}, {state}.",
+      "How are neighbors around {city}, {state} leveraging equity or refreshing older homes?",
+    ],
+    limit: 2,
+  },
+  {
+    key: "life_stage_notes",
+    templates: [
+      "What life stages dominate neighborhoods near ZIP {zip}? Mention families, retirees, or young professionals without using sensitive statistics.",
+      "Any signs of multigenerational living, downsizing, or move-up buyers in {city}, {state}.",
+      "How do locals describe the mix of people settling into {city}, {state} neighborhoods lately?",
+    ],
+    limit: 2,
+  },
+  {
+    key: "positive_news",
+    templates: [
+      "Recent good news stories around {city}, {state}—new parks, business expansions, or community wins.",
+      "Infrastructure improvements or openings locals near {city}, {state} are excited about.",
+      "Feel-good headlines or local achievements people in {city}, {state} are proud of.",
+    ],
+    limit: 2,
+  },
+  {
+    key: "emotional_connectors",
+    templates: [
+      "Where do locals in {city}, {state} show pride or nostalgia—longstanding restaurants, charity events, volunteer traditions?",
+      "Beloved community rituals, memorials, or volunteer efforts that bring neighbors together in {city}, {state}.",
+      "What stories make residents of {city}, {state} light up when they talk about home?",
+    ],
+    limit: 2,
+  },
+];
+
+const DEFAULT_PROVIDERS: SearchProviderKind[] = ["duckduckgo"];
+
+/** The narrowest placeholder a template uses decides who can share its results. */
+export function templateScope(template: string): SearchScope {
+  if (template.includes("{zip}")) return "zip";
+  if (template.includes("{city}")) return "city";
+  return "state";
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Stale answers are served while they refresh for a quarter of the TTL past
+// it; the first brief after the TTL starts the refresh, so a longer window
+// would only keep outdated text around when nobody asks.
+function scopeCacheTiming(variable: string, fallbackSeconds: number) {
+  const ttlMs = (Number(process.env[variable]) || fallbackSeconds) * 1000;
+  return { ttlMs, staleMs: ttlMs / 4 };
+}
+
+const SNIPPET_CACHE_VERSION = 3;
+
+// Resolved query text already embeds the scope (state, "city, state", or
+// ZIP), so it doubles as the cache key: every Scottsdale ZIP asks the same
+// city questions and every Arizona ZIP the same state questions.
+const scopeCaches: Record<SearchScope, TieredCache<SearchSnippet[]>> = {
+  state: createTieredCache<SearchSnippet[]>({
+    namespace: "strategic:state",
+    version: SNIPPET_CACHE_VERSION,
+    ...scopeCacheTiming("STRATEGIC_STATE_TTL_SECONDS", 7 * DAY_SECONDS),
+    maxEntries: 1000,
+  }),
+  city: createTieredCache<SearchSnippet[]>({
+    namespace: "strategic:city",
+    version: SNIPPET_CACHE_VERSION,
+    ...scopeCacheTiming("STRATEGIC_CITY_TTL_SECONDS", 3 * DAY_SECONDS),
+    maxEntries: 5000,
+  }),
+  zip: createTieredCache<SearchSnippet[]>({
+    namespace: "strategic:zip",
+    version: SNIPPET_CACHE_VERSION,
+    ...scopeCacheTiming("STRATEGIC_ZIP_TTL_SECONDS", DAY_SECONDS),
+    maxEntries: 5000,
+  }),
+};
+
+type ScopedRequest = {
+  scope: SearchScope;
+  text: string;
+  sections: string[];
+};
+
+async function scopedSnippets(
+  provider: SearchProvider,
+  { scope, text, sections }: ScopedRequest,
+  location: SearchLocation,
+  topic: string,
+  limit: number,
+  signal?: AbortSignal
+) {
+  const search = (abort?: AbortSignal) =>
+    provider.search({ query: text, scope, location, topic, sections, limit, signal: abort });
+  // Fixture answers are read fresh so edits to the file show up at once.
+  if (provider.kind === "local") {
+    return search(signal);
+  }
+
+  const cache = scopeCaches[scope];
+  // Article providers also read the county's article, which the request text
+  // does not name, and a city can span several counties.
+  const county = !provider.readsQueryText && scope !== "state" ? location.county : null;
+  const key = `${provider.kind}|${limit}|${text.toLowerCase()}${county ? `|${county.toLowerCase()}` : ""}`;
+  const cached = await cache.read(key);
+  if (cached) {
+    if (cached.status === "stale") {
+      cache.refreshInBackground(key, () => search());
+    }
+    return cached.value;
+  }
+
+  // Failures propagate (and are skipped by the caller) so they are never
+  // cached; empty answers are cached like any other result.
+  const snippets = await search(signal);
+  await cache.write(key, snippets);
+  return snippets;
+}
+
+export function emptyStrategicBuckets(): StrategicContextBuckets {
+  return {
+    state_identity: [],
+    state_trends: [],
+    seasonal_rhythms: [],
+    community_traditions: [],
+    iconic_destinations: [],
+    outdoor_showstoppers: [],
+    neighborhood_archetypes: [],
+    home_projects: [],
+    economic_momentum: [],
+    population_growth: [],
+    desirability_factors: [],
+    sports_heat: [],
+    food_and_drink: [],
+    civic_culture: [],
+    housing_signals: [],
+    life_stage_notes: [],
+    positive_news: [],
+    emotional_connectors: [],
+    city_snapshot: null,
+  };
+}
+
+export type StrategicContextResult = {
+  buckets: StrategicContextBuckets;
+  /** Where each bucket entry came from, index-aligned with `buckets`. */
+  provenance: Partial<Record<ContextBucketKey, Provenance[]>>;
+};
+
+/**
+ * Runs every strategic query for a location against each bucket's search
+ * providers. Aborting `signal` cancels the queries still outstanding; the
+ * buckets then hold whatever had already come back, including anything
+ * served from the query caches.
+ */
+export async function fetchStrategicContext(
+  location: SearchLocation,
+  signal?: AbortSignal
+): Promise<StrategicContextResult> {
+  const { state, zip } = location;
+  if (!state) {
+    return { buckets: emptyStrategicBuckets(), provenance: {} };
+  }
+  const city = location.city || state;
+
+  const entries = await mapWithConcurrency(
+    STRATEGIC_QUERIES,
+    4,
+    async ({ key, templates, limit = 3, providers = DEFAULT_PROVIDERS, sections = [] }) => {
+      const bucket: Array<SearchSnippet & { query: string; provider: SearchProviderKind }> = [];
+      // Point briefs outside any known ZIP skip the ZIP-scoped templates.
+      const queries: ScopedRequest[] = templates
+        .filter((template) => zip || templateScope(template) !== "zip")
+        .map((template) => ({
+          scope: templateScope(template),
+          text: template.replace("{city}", city).replace("{state}", state).replace("{zip}", zip),
+          sections,
+        }));
+      // Providers that read articles are asked once per bucket, about the
+      // city when any template is local and the state otherwise.
+      const articleScope: SearchScope = queries.some(({ scope }) => scope !== "state") ? "city" : "state";
+      const articleRequest: ScopedRequest = {
+        scope: articleScope,
+        text: `${sections.join(", ")} for ${articleScope === "state" ? state : `${city}, ${state}`}`,
+        sections,
+      };
+
+      const requests = getSearchProviders(providers).flatMap((provider) =>
+        (provider.readsQueryText ? queries : [articleRequest]).map((request) => ({ provider, request }))
+      );
+      const responses = await Promise.allSettled(
+        requests.map(({ provider, request }) =>
+          scopedSnippets(provider, request, location, key, limit, signal)
+        )
+      );
+
+      for (let index = 0; index < responses.length; index += 1) {
+        const response = responses[index];
+        const { provider, request } = requests[index];
+        if (response.status !== "fulfilled") {
+          if (!isDeliberateSkip(response.reason)) {
+            console.warn(`${provider.kind} search failed:`, response.reason);
+          }
+          continue;
+        }
+        for (const snippet of response.value) {
+          if (bucket.some((existing) => existing.text === snippet.text)) continue;
+          bucket.push({ ...snippet, query: request.text, provider: provider.kind });
+          if (bucket.length >= limit) {
+            break;
+          }
+        }
+        if (bucket.length >= limit) {
+          break;
+        }
+      }
+
+      return [key, bucket] as const;
+    }
+  );
+
+  const buckets = emptyStrategicBuckets();
+  const provenance: StrategicContextResult["provenance"] = {};
+  for (const [key, values] of entries) {
+    buckets[key] = values.map(({ text }) => text);
+    provenance[key] = values.map(({ query, url, provider }) =>
+      provider === "wikipedia" ? wikipediaProvenance(url) : searchProvenance(query, url)
+    );
+  }
+
+  buckets.city_snapshot =
+    buckets.state_identity[0] ||
+    buckets.state_trends[0] ||
+    buckets.community_traditions[0] ||
+    buckets.iconic_destinations[0] ||
+    buckets.outdoor_showstoppers[0] ||
+    buckets.neighborhood_archetypes[0] ||
+    buckets.food_and_drink[0] ||
+    buckets.emotional_connectors[0] ||
+    buckets.positive_news[0] ||
+    null;
+
+  return { buckets, provenance };
+}
@@ -0,0 +1,34 @@
+import { eventStreamResponse } from "@/lib/sse";
+
+import { UnknownPlaceError } from "./geo";
+import { buildRapport } from "./pipeline";
+import type { RapportTarget } from "./types";
+
+/**
+ * Streams a brief as Server-Sent Events: each pipeline event as it happens,
+ * then `done` with the full payload, or `error` with `{ detail, status }`.
+ */
+export function streamRapport(target: RapportTarget, notFoundDetail: string) {
+  return eventStreamResponse(async (send) => {
+    try {
+      const payload = await buildRapport(target, {
+        onEvent: ({ event, data }) => send(event, data),
+      });
+      if (!payload) {
+        send("error", { detail: notFoundDetail, status: 404 });
+      } else {
+        send("done", payload);
+      }
+    } catch (error) {
+      if (error instanceof UnknownPlaceError) {
+        send("error", { detail: error.message, status: 400, places: error.places });
+      } else {
+        console.error("Failed to stream rapport payload:", error);
+        send("error", {
+          detail: error instanceof Error ? error.message : "Unknown upstream failure.",
+          status: 502,
+        });
+      }
+    }
+  });
+}
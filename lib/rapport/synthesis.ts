@@ -0,0 +1,484 @@
+import { z } from "zod";
+
+import { circuitBreaker, type Upstream } from "@/lib/circuit-breaker";
+import { DeadlineExceededError } from "@/lib/deadline";
+import { retryWithBackoff } from "@/lib/http";
+import { normalizeBlurb } from "@/lib/search";
+import {
+  getFallbackLlmProvider,
+  getLlmProvider,
+  LlmConfigurationError,
+  type ChatMessage,
+  type LlmCompletionOptions,
+  type LlmProvider,
+} from "@/lib/llm";
+
+import { summarizePlace } from "./places";
+import {
+  CONTEXT_BUCKET_KEYS,
+  type ContextBucketKey,
+  type GrokAnchor,
+  type GrokSynthesis,
+  type KnowledgeBrief,
+  type LocalPlace,
+  type RapportSummary,
+  type StrategicContextBuckets,
+} from "./types";
+
+const LLM_RETRY_ATTEMPTS = Math.max(1, Number(process.env.LLM_RETRY_ATTEMPTS) || 2);
+const LLM_RETRY_BASE_DELAY_MS = Number(process.env.LLM_RETRY_BASE_DELAY_MS) || 750;
+
+const synthesisSchema = z
+  .object({
+    anchors: z
+      .array(
+        z.object({
+          category: z.string().trim().min(1),
+          name: z.string().trim().min(1),
+          summary: z.string().trim().min(1),
+        })
+      )
+      .max(8),
+    summary_card: z.object({
+      local_lifestyle_hook: z.string().max(400),
+      equity_or_payment_hook: z.string().max(400),
+      intent_probe: z.string().max(400),
+    }),
+    knowledge: z
+      .object(
+        Object.fromEntries(
+          CONTEXT_BUCKET_KEYS.map((key) => [
+            key,
+            z.array(z.string().trim().min(1)).max(3).optional(),
+          ])
+        ) as Record<ContextBucketKey, z.ZodOptional<z.ZodArray<z.ZodString>>>
+      )
+      .strict(),
+  })
+  .refine(
+    (value) => value.anchors.length > 0 || Object.keys(value.knowledge).length > 0,
+    { message: "Synthesis must include at least one anchor or knowledge bucket." }
+  );
+
+const systemPrompt = [
+  "You are preparing a knowledge brief so a mortgage loan officer can sound like a genuine neighbor.",
+  "",
+  "INPUT JSON is a light scaffolding:",
+  "- location: {city, state, zip, coordinates}",
+  `- strategic_context: bucket hints (${CONTEXT_BUCKET_KEYS.join(", ")}, city_snapshot)`,
+  "- anchor_spots: notable venues with metadata",
+  "",
+  "Bring your own knowledge of geography, attractions, sports, economy, population, and culture. Use the hints as anchors when they’re helpful, but feel free to supplement or expand with what you already know about the region. Accuracy matters more than repeating the provided blurbs.",
+  "",
+  "TASK:",
+  "Create a concise knowledge brief organized by bucket so the officer understands:",
+  "- Iconic attractions and day trips (theme parks, stadiums, scenic drives)",
+  "- Seasonal lifestyle patterns and outdoor highlights",
+  "- Major employers, developments, and growth stats",
+  "- Reasons people move there (schools, cost of living, amenities)",
+  "- Food, sports, culture, and emotional pride points",
+  "",
+  "OUTPUT: respond with a single JSON object and nothing else (no prose, no code fences). Shape:",
+  "{",
+  '  "anchors": [{"category": "FOOD_AND_DRINK", "name": "Joe\'s Farm Grill", "summary": "Farm-to-table courtyard in Agritopia where locals gather for live music nights."}],',
+  '  "summary_card": {',
+  '    "local_lifestyle_hook": "Have you caught one of the live music nights at Joe\'s Farm Grill in Agritopia yet?",',
+  '    "equity_or_payment_hook": "A lot of folks near Agritopia are reworking backyards for those long patio seasons.",',
+  '    "intent_probe": "What would make your next place feel like it fits the way you spend weekends?"',
+  "  },",
+  '  "knowledge": {',
+  '    "state_identity": ["Arizona blends desert living with booming tech corridors."],',
+  '    "iconic_destinations": ["Phoenix sits less than 30 minutes from Camelback Mountain and the Desert Botanical Garden."]',
+  "  }",
+  "}",
+  "",
+  "Guidance:",
+  "- anchors: 5-6 diverse local anchors. Categories can include ICONIC_DESTINATIONS, OUTDOOR_SHOWSTOPPERS, FOOD_AND_DRINK, SPORTS_HEAT, ECONOMIC_MOMENTUM, COMMUNITY_TRADITIONS, etc.",
+  "- summary_card.local_lifestyle_hook: a warm, specific opener that references a real anchor or local rhythm.",
+  "- summary_card.equity_or_payment_hook: a soft bridge from local life to how neighbors are using their homes (refreshing, upgrading, moving up) without mentioning rates, savings, or the borrower's finances.",
+  "- summary_card.intent_probe: one open-ended discovery question about what the borrower wants from their next home or project.",
+  "- Ground every summary_card line in the strategic_context hints or your anchors; keep each under 30 words.",
+  `- knowledge keys must come from this list only: ${CONTEXT_BUCKET_KEYS.join(", ")}.`,
+  "- Provide 1–2 sentences per knowledge bucket; omit a bucket rather than leaving it empty.",
+  "- Blend provided anchors with your broader knowledge (e.g., mention Disneyland, State Farm Stadium playoff runs, Intel fabs, fast population growth).",
+  "- Avoid repeating the same fact in multiple places; make each sentence additive.",
+  "- Keep language educational, friendly, and non-salesy.",
+  "- If you truly know nothing about a bucket, skip it rather than inventing specifics.",
+  "",
+  "Compliance:",
+  "- No mention of crime, demographics, income levels, or politics.",
+  "- Do not assume personal finances, debt, credit, job status, or family situation.",
+  "- Do not promise rates or savings.",
+].join("\n");
+
+export class SynthesisValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = "SynthesisValidationError";
+    this.issues = issues;
+  }
+}
+
+function extractJsonDocument(content: string) {
+  // Models sometimes wrap the document in fences or a sentence of prose.
+  const fenced =
+    content.match(/```json([\s\S]*?)```/i) ??
+    content.match(/```([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : content).trim();
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body;
+}
+
+function formatSchemaIssues(error: z.ZodError) {
+  return error.issues.map((issue) => {
+    const path = issue.path.length ? issue.path.join(".") : "(root)";
+    return `${path}: ${issue.message}`;
+  });
+}
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+/** Extracts the JSON document from a completion and validates it against `schema`. */
+export function parseJsonCompletion<S extends z.ZodTypeAny>(
+  content: string,
+  schema: S
+): ParseResult<z.infer<S>> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extractJsonDocument(content));
+  } catch (error) {
+    return {
+      ok: false,
+      issues: [
+        `(root): response is not valid JSON (${
+          error instanceof Error ? error.message : "parse failed"
+        })`,
+      ],
+    };
+  }
+
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    return { ok: false, issues: formatSchemaIssues(parsed.error) };
+  }
+  return { ok: true, value: parsed.data };
+}
+
+function parseSynthesis(content: string): ParseResult<GrokSynthesis> {
+  const parsed = parseJsonCompletion(content, synthesisSchema);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const knowledge: KnowledgeBrief = {};
+  for (const key of CONTEXT_BUCKET_KEYS) {
+    const sentences = (parsed.value.knowledge[key] ?? [])
+      .map((sentence) => normalizeBlurb(sentence))
+      .filter(Boolean);
+    if (sentences.length) {
+      knowledge[key] = sentences;
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      knowledge,
+      anchors: parsed.value.anchors,
+      summary: parsed.value.summary_card,
+    },
+  };
+}
+
+export type SynthesisPartial =
+  | { kind: "anchors"; anchors: GrokAnchor[] }
+  | { kind: "summary"; summary: Partial<RapportSummary> }
+  | { kind: "knowledge"; bucket: ContextBucketKey; sentences: string[] };
+
+/**
+ * Returns the array or object value of `"key"` once its closing bracket has
+ * streamed in, or null while it is still incomplete.
+ */
+function readClosedValue(buffer: string, key: string): unknown {
+  const match = new RegExp(`"${key}"\\s*:\\s*[\\[{]`).exec(buffer);
+  if (!match) return null;
+
+  const start = match.index + match[0].length - 1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let index = start; index < buffer.length; index += 1) {
+    const char = buffer[index];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "[" || char === "{") depth += 1;
+    else if (char === "]" || char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        try {
+          return JSON.parse(buffer.slice(start, index + 1));
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+const anchorListSchema = synthesisSchema.innerType().shape.anchors;
+const summaryCardSchema = synthesisSchema.innerType().shape.summary_card.partial();
+const sentenceListSchema = z.array(z.string().trim().min(1)).max(3);
+
+// Streams the completion and reports anchors, summary lines and each knowledge
+// bucket as soon as its JSON value closes. The full text is still validated
+// by the caller once the stream ends.
+async function streamCompletion(
+  provider: LlmProvider,
+  messages: ChatMessage[],
+  onPartial: (partial: SynthesisPartial) => void,
+  options: Partial<LlmCompletionOptions>
+) {
+  const stream = provider.stream?.(messages, { ...options, json: true });
+  if (!stream) {
+    return provider.complete(messages, { ...options, json: true });
+  }
+
+  let buffer = "";
+  const emitted = new Set<string>();
+  for await (const delta of stream) {
+    buffer += delta;
+
+    if (!emitted.has("anchors")) {
+      const anchors = anchorListSchema.safeParse(readClosedValue(buffer, "anchors"));
+      if (anchors.success) {
+        emitted.add("anchors");
+        onPartial({ kind: "anchors", anchors: anchors.data });
+      }
+    }
+    if (!emitted.has("summary_card")) {
+      const summary = summaryCardSchema.safeParse(readClosedValue(buffer, "summary_card"));
+      if (summary.success) {
+        emitted.add("summary_card");
+        onPartial({ kind: "summary", summary: summary.data });
+      }
+    }
+    for (const bucket of CONTEXT_BUCKET_KEYS) {
+      if (emitted.has(bucket)) continue;
+      const sentences = sentenceListSchema.safeParse(readClosedValue(buffer, bucket));
+      if (sentences.success && sentences.data.length) {
+        emitted.add(bucket);
+        onPartial({ kind: "knowledge", bucket, sentences: sentences.data });
+      }
+    }
+  }
+  return buffer;
+}
+
+async function synthesizeWithLlm(
+  provider: LlmProvider,
+  context: Record<string, unknown>,
+  onPartial: ((partial: SynthesisPartial) => void) | undefined,
+  options: Partial<LlmCompletionOptions>
+): Promise<GrokSynthesis> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: JSON.stringify(context) },
+  ];
+
+  const firstAttempt = onPartial
+    ? await streamCompletion(provider, messages, onPartial, options)
+    : await provider.complete(messages, { ...options, json: true });
+  return validateWithRepair(provider, messages, firstAttempt, parseSynthesis, options);
+}
+
+/**
+ * Parses a completion and, if it fails validation, asks the same model for
+ * one repaired answer before giving up with `SynthesisValidationError`.
+ */
+export async function validateWithRepair<T>(
+  provider: LlmProvider,
+  messages: ChatMessage[],
+  firstAttempt: string,
+  parse: (content: string) => ParseResult<T>,
+  options: Partial<LlmCompletionOptions> = {}
+): Promise<T> {
+  const first = parse(firstAttempt);
+  if (first.ok) {
+    return first.value;
+  }
+
+  console.warn("LLM synthesis failed schema validation, requesting repair:", first.issues);
+  const repairAttempt = await provider.complete(
+    [
+      ...messages,
+      { role: "assistant", content: firstAttempt },
+      {
+        role: "user",
+        content: [
+          "Your previous response did not match the required JSON shape. Problems:",
+          ...first.issues.map((issue) => `- ${issue}`),
+          "",
+          "Return the corrected JSON object only, keeping the same content where it was valid.",
+        ].join("\n"),
+      },
+    ],
+    { ...options, json: true }
+  );
+  const repaired = parse(repairAttempt);
+  if (repaired.ok) {
+    return repaired.value;
+  }
+
+  console.warn("LLM synthesis repair failed schema validation:", repaired.issues);
+  throw new SynthesisValidationError(
+    "The LLM returned a synthesis that failed schema validation after one repair attempt.",
+    repaired.issues
+  );
+}
+
+// Last resort when no model answers: the brief is assembled straight from the
+// strategic buckets and enriched places the pipeline already gathered.
+export function buildDeterministicSynthesis(
+  strategic: StrategicContextBuckets,
+  places: LocalPlace[]
+): GrokSynthesis {
+  const knowledge: KnowledgeBrief = {};
+  for (const key of CONTEXT_BUCKET_KEYS) {
+    const sentences = strategic[key].slice(0, 2);
+    if (sentences.length) {
+      knowledge[key] = sentences;
+    }
+  }
+
+  const anchors: GrokAnchor[] = places.slice(0, 6).map((place) => ({
+    category: (place.category || "Local favorite").toUpperCase().replace(/\s+/g, "_"),
+    name: place.name,
+    summary: place.summary || summarizePlace(place),
+  }));
+
+  return { knowledge, anchors, summary: {} };
+}
+
+function describeFailure(error: unknown) {
+  if (error instanceof SynthesisValidationError) {
+    return `${error.message} (${error.issues.slice(0, 3).join("; ")})`;
+  }
+  return error instanceof Error ? error.message : "Unknown LLM failure.";
+}
+
+// Settings mistakes and malformed answers are not outages; only failures to
+// get an answer at all count against a model's breaker.
+const isModelOutage = (error: unknown) =>
+  !(error instanceof LlmConfigurationError) && !(error instanceof SynthesisValidationError);
+
+// Neither a settings mistake nor a spent deadline gets better on a second try.
+const isRetryable = (error: unknown) =>
+  !(error instanceof LlmConfigurationError) && !(error instanceof DeadlineExceededError);
+
+/**
+ * Runs `task` against the primary model, then the secondary, each with
+ * retries. A model whose circuit breaker is open is skipped without a call.
+ * Returns null with the collected failures when neither answers.
+ */
+export async function runWithModelFallbacks<T>(
+  task: (provider: LlmProvider) => Promise<T>
+): Promise<{ value: T | null; degradedReason: string | null; failures: string[] }> {
+  const failures: string[] = [];
+  const resolvers: Array<{ label: string; upstream: Upstream; resolve: () => LlmProvider | null }> = [
+    { label: "primary", upstream: "llm", resolve: getLlmProvider },
+    { label: "secondary", upstream: "llm_fallback", resolve: getFallbackLlmProvider },
+  ];
+
+  for (const { label, upstream, resolve } of resolvers) {
+    try {
+      const provider = resolve();
+      if (!provider) continue;
+      const value = await circuitBreaker(upstream).run(
+        () =>
+          retryWithBackoff(() => task(provider), {
+            attempts: LLM_RETRY_ATTEMPTS,
+            baseDelayMs: LLM_RETRY_BASE_DELAY_MS,
+            shouldRetry: isRetryable,
+          }),
+        { isFailure: isModelOutage }
+      );
+      const degradedReason = failures.length
+        ? `Primary model unavailable; answered by ${provider.kind}/${provider.model}. ${failures.join(" ")}`
+        : null;
+      return { value, degradedReason, failures };
+    } catch (error) {
+      console.warn(`LLM ${label} synthesis failed:`, error);
+      failures.push(`${label}: ${describeFailure(error)}`);
+    }
+  }
+
+  return { value: null, degradedReason: null, failures };
+}
+
+/**
+ * Synthesizes a brief with the model fallback chain, or deterministically
+ * when no model answers. `options` (such as a deadline's `signal` and
+ * `timeoutMs`) apply to every model call.
+ */
+export async function synthesizeWithFallbacks(
+  context: Record<string, unknown>,
+  strategic: StrategicContextBuckets,
+  places: LocalPlace[],
+  onPartial?: (partial: SynthesisPartial) => void,
+  options: Partial<LlmCompletionOptions> = {}
+): Promise<{ synthesis: GrokSynthesis; degradedReason: string | null }> {
+  const { value, degradedReason, failures } = await runWithModelFallbacks((provider) =>
+    synthesizeWithLlm(provider, context, onPartial, options)
+  );
+  if (value) {
+    return { synthesis: value, degradedReason };
+  }
+
+  return {
+    synthesis: buildDeterministicSynthesis(strategic, places),
+    degradedReason: `No model answered, so this brief was assembled from live search and map results. ${failures.join(" ")}`,
+  };
+}
+
+const hasSnippet = (list: string[] | undefined) => Boolean(list?.some((item) => item.trim()));
+
+// Fills any hook the model skipped with a templated line built from the
+// same anchors and strategic buckets it was given.
+export function buildSummaryCard(
+  summary: Partial<RapportSummary>,
+  city: string,
+  strategic: StrategicContextBuckets,
+  anchors: GrokAnchor[],
+  places: LocalPlace[]
+): RapportSummary {
+  const area = city || "the area";
+  const anchorName = anchors[0]?.name || places[0]?.name;
+  const lifestyleFallback = anchorName
+    ? `Have you had a chance to get out to ${anchorName} lately? It comes up a lot with folks around ${area}.`
+    : `What do you enjoy most about living around ${area} this time of year?`;
+
+  // Search snippets are unvetted, so the hook only names the topic they cover;
+  // the snippets stay in the knowledge brief beside their sources.
+  const equityFallback = hasSnippet(strategic.home_projects)
+    ? `Home projects come up a lot with folks around ${area} lately. Have you been thinking about any around your own place?`
+    : hasSnippet(strategic.housing_signals)
+      ? `Neighbors around ${area} have had their homes on their minds lately. How is yours fitting the way you live now?`
+      : `Plenty of folks around ${area} are thinking about how their home fits the way they live now.`;
+
+  const intentFallback = `If your next place nailed one thing about life in ${area}, what would it be?`;
+
+  return {
+    local_lifestyle_hook: summary.local_lifestyle_hook?.trim() || lifestyleFallback,
+    equity_or_payment_hook: summary.equity_or_payment_hook?.trim() || equityFallback,
+    intent_probe: summary.intent_probe?.trim() || intentFallback,
+  };
+}
@@ -0,0 +1,270 @@
+import type { CacheStatus } from "@/lib/cache/types";
+import type { CircuitBreakerStatus } from "@/lib/circuit-breaker";
+import type { DeadlineReport } from "@/lib/deadline";
+import type { NearbyZip } from "@/lib/gazetteer";
+
+export type LocalPlace = {
+  name: string;
+  category?: string;
+  distance_miles?: number | null;
+  url?: string | null;
+  summary?: string | null;
+  /** OpenStreetMap element, e.g. `way/123456`. */
+  osm_id?: string | null;
+  /** Where `summary` came from; null when it was templated. */
+  summary_source?: { kind: DescriptionSource; query: string | null; url: string | null } | null;
+  /** One short line on what draws locals there. */
+  why_locals_go?: string | null;
+  /** OSM `description` tag, as mapped. */
+  description?: string | null;
+  /** OSM `opening_hours` value, as mapped. */
+  opening_hours?: string | null;
+  website?: string | null;
+  wikipedia?: string | null;
+  /** Tag-based notability score used to rank places; higher is better known. */
+  prominence?: number;
+  /** The distance tier the place was found in. */
+  tier?: PlaceTier;
+};
+
+export type DescriptionSource = "osm" | "wikipedia" | "search";
+
+export const PLACE_TIERS = ["around_the_corner", "around_town", "day_trip"] as const;
+
+export type PlaceTier = (typeof PLACE_TIERS)[number];
+
+export type PlaceTierGroup = {
+  tier: PlaceTier;
+  label: string;
+  /** How far out the tier searched. */
+  radius_miles: number;
+  places: LocalPlace[];
+};
+
+export type StrategicContextBuckets = {
+  state_identity: string[];
+  state_trends: string[];
+  seasonal_rhythms: string[];
+  community_traditions: string[];
+  iconic_destinations: string[];
+  outdoor_showstoppers: string[];
+  neighborhood_archetypes: string[];
+  home_projects: string[];
+  economic_momentum: string[];
+  population_growth: string[];
+  desirability_factors: string[];
+  sports_heat: string[];
+  food_and_drink: string[];
+  civic_culture: string[];
+  housing_signals: string[];
+  life_stage_notes: string[];
+  positive_news: string[];
+  emotional_connectors: string[];
+  city_snapshot?: string | null;
+};
+
+export type GrokAnchor = {
+  category: string;
+  name: string;
+  summary: string;
+  /**
+   * Whether OpenStreetMap has a place by this name near the brief's center.
+   * Null when the check could not run; absent when verification is off.
+   */
+  verified?: boolean | null;
+  distance_miles?: number | null;
+  /** The matched OpenStreetMap element, e.g. `way/123456`, and its name there. */
+  osm_id?: string | null;
+  osm_name?: string | null;
+};
+
+export const CONTEXT_BUCKET_KEYS = [
+  "state_identity",
+  "state_trends",
+  "seasonal_rhythms",
+  "community_traditions",
+  "iconic_destinations",
+  "outdoor_showstoppers",
+  "neighborhood_archetypes",
+  "home_projects",
+  "economic_momentum",
+  "population_growth",
+  "desirability_factors",
+  "sports_heat",
+  "food_and_drink",
+  "civic_culture",
+  "housing_signals",
+  "life_stage_notes",
+  "positive_news",
+  "emotional_connectors",
+] as const;
+
+export type ContextBucketKey = (typeof CONTEXT_BUCKET_KEYS)[number];
+
+export type RapportSummary = {
+  local_lifestyle_hook: string;
+  equity_or_payment_hook: string;
+  intent_probe: string;
+};
+
+export type KnowledgeBrief = Partial<Record<ContextBucketKey, string[]>>;
+
+export type GrokSynthesis = {
+  knowledge: KnowledgeBrief;
+  anchors: GrokAnchor[];
+  summary: Partial<RapportSummary>;
+};
+
+/** One of the place names a ZIP is filed under. */
+export type ZipPlace = {
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type GeoLocation = {
+  /** The ZIP containing the location; empty when none could be found. */
+  zip: string;
+  /** The place this brief is for; one of `places`. */
+  city: string;
+  state: string;
+  /** Set for briefs built from coordinates that fall in a named neighborhood. */
+  neighborhood: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  /** Every candidate place for the ZIP, primary first. */
+  places: ZipPlace[];
+  county: string | null;
+  county_fips: string | null;
+  cbsa_code: string | null;
+  cbsa_name: string | null;
+  timezone: string | null;
+  neighbors: NearbyZip[];
+  source: "gazetteer" | "zippopotam" | "nominatim";
+};
+
+/** What a brief is built for: a ZIP (optionally one of its places) or a point. */
+export type RapportTarget =
+  | { zip: string; place?: string | null }
+  | { latitude: number; longitude: number };
+
+/** A geocoded match for free-text search, with the brief that serves it. */
+export type ResolvedLocation = {
+  label: string;
+  kind: "zip" | "city" | "neighborhood" | "address" | "place";
+  zip: string | null;
+  city: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  target: RapportTarget;
+};
+
+/**
+ * Where a brief item came from. `search` items come from a search snippet,
+ * `osm` items from an OpenStreetMap place, `template` items are fixed
+ * wording, and `model` items are the model's own claims that nothing
+ * gathered for the brief backs up.
+ */
+export type Provenance = {
+  source: "search" | "wikipedia" | "osm" | "model" | "template";
+  /** The search query the text came from. */
+  query: string | null;
+  osm_id: string | null;
+  url: string | null;
+  /** `high` is a direct quote or exact place match, `medium` a close paraphrase. */
+  confidence: "high" | "medium" | "low";
+  model_only: boolean;
+};
+
+/** Provenance for each brief item, index-aligned with the lists it describes. */
+export type BriefProvenance = {
+  summary_card: Record<keyof RapportSummary, Provenance>;
+  knowledge_brief: Partial<Record<ContextBucketKey, Provenance[]>>;
+  grok_anchors: Provenance[];
+  strategic_context: Partial<Record<ContextBucketKey, Provenance[]>>;
+};
+
+/** One rule hit while screening a brief. */
+export type ComplianceFinding = {
+  rule_id: string;
+  category: string;
+  action: "redact" | "drop";
+  /** Where the hit was, e.g. `knowledge_brief.sports_heat[1]` or `grok_anchors[0].summary`. */
+  field: string;
+  /** The text the rule matched. */
+  match: string;
+};
+
+export type ComplianceReport = {
+  /** Version of the rule file plus a content hash, so edits are visible. */
+  ruleset_version: string | null;
+  checked: number;
+  redacted: number;
+  dropped: number;
+  findings: ComplianceFinding[];
+  /** Set when the rule file could not be loaded and screening was skipped. */
+  error: string | null;
+};
+
+export type ZipRapportResponse = {
+  zip: string;
+  city: string;
+  state: string;
+  /** ISO timestamp of when this brief was built, not when it was served. */
+  generated_at: string;
+  cache_status: CacheStatus;
+  location: GeoLocation;
+  degraded: boolean;
+  degraded_reason: string | null;
+  summary_card: RapportSummary;
+  knowledge_brief: KnowledgeBrief;
+  grok_anchors: GrokAnchor[];
+  raw_supporting_data: {
+    strategic_context: StrategicContextBuckets;
+    local_places: LocalPlace[];
+    /** `local_places` split by distance tier. */
+    place_tiers: PlaceTierGroup[];
+  };
+  compliance: ComplianceReport;
+  provenance: BriefProvenance;
+  /** Upstream circuit breakers as of when the brief was served. */
+  circuit_breakers: CircuitBreakerStatus[];
+  /** Per-stage timings of the build. */
+  debug: DeadlineReport;
+};
+
+export const COMPARISON_BUCKET_KEYS = [
+  "seasonal_rhythms",
+  "outdoor_showstoppers",
+  "sports_heat",
+  "food_and_drink",
+] as const;
+
+export type ComparisonBucketKey = (typeof COMPARISON_BUCKET_KEYS)[number];
+
+export type RelocationContrast = {
+  bucket: ComparisonBucketKey;
+  origin: string[];
+  destination: string[];
+  /** One line on how the two differ; null when no model answered. */
+  summary: string | null;
+};
+
+export type RelocationComparison = {
+  generated_at: string;
+  /** Straight-line miles between the two centroids, when both are known. */
+  distance_miles: number | null;
+  degraded: boolean;
+  degraded_reason: string | null;
+  shared_themes: string[];
+  contrasts: RelocationContrast[];
+  hooks: {
+    miss: string[];
+    gain: string[];
+  };
+  /** Screening of the narrative above; each brief carries its own report. */
+  compliance: ComplianceReport;
+  origin: ZipRapportResponse;
+  destination: ZipRapportResponse;
+};
@@ -0,0 +1,215 @@
+export type RateBudget = {
+  /** Request starts allowed per second; `Infinity` means no spacing. */
+  requestsPerSecond: number;
+  /** Requests allowed in flight at once. */
+  concurrency: number;
+};
+
+export type RateLimiterMetrics = {
+  host: string;
+  requests_per_second: number | null;
+  concurrency: number | null;
+  queued: number;
+  active: number;
+  /** Deepest the queue has been since the process started. */
+  max_queued: number;
+  completed: number;
+  /** 429 (or Retry-After) responses received. */
+  throttled: number;
+  /** When the host asked us to back off until, if that is still ahead. */
+  paused_until: string | null;
+};
+
+export class RateLimitQueueError extends Error {
+  constructor(host: string, waitedMs: number) {
+    super(`Gave up waiting ${Math.round(waitedMs / 1000)}s for a ${host} request slot.`);
+    this.name = "RateLimitQueueError";
+  }
+}
+
+// Published or observed limits for the public services the pipeline calls.
+// Nominatim's usage policy allows one request per second per application;
+// the main Overpass instance gives each client two query slots. Wikimedia
+// asks API clients to keep request rates modest.
+const DEFAULT_BUDGETS: Record<string, RateBudget> = {
+  "nominatim.openstreetmap.org": { requestsPerSecond: 1, concurrency: 1 },
+  "api.duckduckgo.com": { requestsPerSecond: 2, concurrency: 2 },
+  "api.zippopotam.us": { requestsPerSecond: 5, concurrency: 2 },
+  "overpass-api.de": { requestsPerSecond: 1, concurrency: 2 },
+  "en.wikipedia.org": { requestsPerSecond: 10, concurrency: 4 },
+};
+
+const UNLIMITED: RateBudget = { requestsPerSecond: Infinity, concurrency: Infinity };
+
+/**
+ * Reads `RATE_LIMITS`, a comma-separated list of `host=rps` or
+ * `host=rps/concurrency` entries that override or extend the defaults, e.g.
+ * `nominatim.example.org=5/4,api.duckduckgo.com=1`.
+ */
+export function parseRateBudgets(value: string | undefined): Record<string, RateBudget> {
+  const budgets: Record<string, RateBudget> = { ...DEFAULT_BUDGETS };
+  for (const entry of (value ?? "").split(",")) {
+    const match = entry.trim().match(/^([^=\s]+)\s*=\s*([\d.]+)(?:\s*\/\s*(\d+))?$/);
+    if (!match) {
+      if (entry.trim()) console.warn(`Ignoring malformed RATE_LIMITS entry: ${entry.trim()}`);
+      continue;
+    }
+    const requestsPerSecond = Number(match[2]);
+    budgets[match[1].toLowerCase()] = {
+      requestsPerSecond: requestsPerSecond > 0 ? requestsPerSecond : Infinity,
+      concurrency: match[3] ? Math.max(1, Number(match[3])) : Math.max(1, Math.ceil(requestsPerSecond)),
+    };
+  }
+  return budgets;
+}
+
+type Waiter = {
+  grant: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * FIFO queue for one host: spaces request starts to the budget, caps how many
+ * run at once, and holds everything back while the host has asked us to
+ * pause (429 or `Retry-After`). Hosts without a budget still honor pauses.
+ */
+export class HostRateLimiter {
+  private readonly queue: Waiter[] = [];
+  private active = 0;
+  private nextStartAt = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private maxQueued = 0;
+  private completed = 0;
+  private throttled = 0;
+
+  constructor(
+    readonly host: string,
+    private readonly budget: RateBudget
+  ) {}
+
+  /**
+   * Waits for a slot and returns the function that releases it. Aborting
+   * `signal` takes the request out of the queue.
+   */
+  acquire(maxWaitMs: number, signal?: AbortSignal | null): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const leave = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          clearTimeout(waiter.timer);
+          reject(signal?.reason);
+        }
+      };
+      signal?.addEventListener("abort", leave, { once: true });
+      const waiter: Waiter = {
+        grant: () => {
+          clearTimeout(waiter.timer);
+          signal?.removeEventListener("abort", leave);
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            this.active -= 1;
+            this.completed += 1;
+            this.pump();
+          });
+        },
+        reject,
+        timer: setTimeout(() => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            signal?.removeEventListener("abort", leave);
+            reject(new RateLimitQueueError(this.host, maxWaitMs));
+          }
+        }, maxWaitMs),
+      };
+      this.queue.push(waiter);
+      this.maxQueued = Math.max(this.maxQueued, this.queue.length);
+      this.pump();
+    });
+  }
+
+  /** Holds new requests back for `ms`, as asked by a 429 or `Retry-After`. */
+  pause(ms: number) {
+    this.throttled += 1;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.pump();
+  }
+
+  metrics(): RateLimiterMetrics {
+    return {
+      host: this.host,
+      requests_per_second: Number.isFinite(this.budget.requestsPerSecond)
+        ? this.budget.requestsPerSecond
+        : null,
+      concurrency: Number.isFinite(this.budget.concurrency) ? this.budget.concurrency : null,
+      queued: this.queue.length,
+      active: this.active,
+      max_queued: this.maxQueued,
+      completed: this.completed,
+      throttled: this.throttled,
+      paused_until: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+    };
+  }
+
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    while (this.queue.length && this.active < this.budget.concurrency) {
+      const now = Date.now();
+      const startAt = Math.max(this.nextStartAt, this.pausedUntil);
+      if (startAt > now) {
+        this.timer = setTimeout(() => this.pump(), startAt - now);
+        return;
+      }
+      const waiter = this.queue.shift()!;
+      this.active += 1;
+      this.nextStartAt = Number.isFinite(this.budget.requestsPerSecond)
+        ? now + 1000 / this.budget.requestsPerSecond
+        : now;
+      waiter.grant();
+    }
+  }
+}
+
+const budgets = parseRateBudgets(process.env.RATE_LIMITS);
+const limiters = new Map<string, HostRateLimiter>();
+
+export function rateLimiterFor(host: string) {
+  const key = host.toLowerCase();
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new HostRateLimiter(key, budgets[key] ?? UNLIMITED);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/** Queue and throttle counts for every host contacted so far. */
+export function rateLimiterMetrics() {
+  return Array.from(limiters.values()).map((limiter) => limiter.metrics());
+}
+
+/**
+ * Reads `Retry-After` as seconds or an HTTP date. Returns null when the
+ * header is missing or unreadable.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
@@ -0,0 +1,138 @@
+import { circuitBreaker } from "@/lib/circuit-breaker";
+import { CONTACT_USER_AGENT, fetchWithTimeout } from "@/lib/http";
+import { Singleflight } from "@/lib/singleflight";
+
+import { ensureSentence, normalizeBlurb } from "./text";
+import type { SearchProvider, SearchRequest, SearchSnippet } from "./types";
+
+type DuckDuckGoResponse = {
+  Abstract?: string;
+  AbstractText?: string;
+  AbstractURL?: string;
+  Heading?: string;
+  Answer?: string;
+  AnswerType?: string;
+  Infobox?: {
+    content?: Array<{ label?: string; value?: string }>;
+  };
+  RelatedTopics?: Array<
+    | { Text?: string; FirstURL?: string }
+    | { Topics?: Array<{ Text?: string; FirstURL?: string }> }
+  >;
+};
+
+function extractRelatedTopics(raw: DuckDuckGoResponse) {
+  const results: SearchSnippet[] = [];
+  const related = Array.isArray(raw?.RelatedTopics) ? raw.RelatedTopics : [];
+  for (const item of related) {
+    if (!item) continue;
+    if ("Text" in item && typeof item.Text === "string") {
+      const blurb = normalizeBlurb(item.Text);
+      if (blurb) results.push({ text: blurb, url: item.FirstURL || null });
+    } else if ("Topics" in item && Array.isArray(item.Topics)) {
+      for (const nested of item.Topics) {
+        if (nested?.Text) {
+          const blurb = normalizeBlurb(nested.Text);
+          if (blurb) results.push({ text: blurb, url: nested.FirstURL || null });
+        }
+      }
+    }
+  }
+  return results;
+}
+
+const duckDuckGoFlights = new Singleflight<SearchSnippet[]>();
+
+// Throws on transport, status, and parse failures so callers can tell a
+// failed lookup from one that simply had no answer. Identical concurrent
+// queries share one request. While the breaker is open, uncached queries
+// throw `CircuitOpenError` at once. A caller whose signal aborts stops
+// waiting; the shared request is only cancelled once every caller has.
+export function fetchDuckDuckGoSnippets(query: string, limit: number, signal?: AbortSignal) {
+  return duckDuckGoFlights.run(
+    `${limit}|${query}`,
+    (shared) =>
+      circuitBreaker("duckduckgo").run(() => requestDuckDuckGoSnippets(query, limit, shared)),
+    signal
+  );
+}
+
+async function requestDuckDuckGoSnippets(
+  query: string,
+  limit: number,
+  signal?: AbortSignal
+): Promise<SearchSnippet[]> {
+  const url = new URL("https://api.duckduckgo.com/");
+  url.searchParams.set("q", query);
+  url.searchParams.set("format", "json");
+  url.searchParams.set("no_html", "1");
+  url.searchParams.set("no_redirect", "1");
+
+  const response = await fetchWithTimeout(
+    url.toString(),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": CONTACT_USER_AGENT,
+      },
+      signal,
+    },
+    8000
+  );
+  if (!response.ok) {
+    throw new Error(`DuckDuckGo responded with status ${response.status}`);
+  }
+  const raw = await response.text();
+  if (!raw) return [];
+  let data: DuckDuckGoResponse | null = null;
+  try {
+    data = JSON.parse(raw) as DuckDuckGoResponse;
+  } catch (parseError) {
+    console.warn("DuckDuckGo JSON parse failed:", parseError);
+    throw parseError;
+  }
+
+  // The heading, abstract and infobox all describe the abstract's source page.
+  const abstractUrl = data.AbstractURL || null;
+  const candidates: SearchSnippet[] = [];
+  if ((data as any).Heading) {
+    candidates.push({ text: `${(data as any).Heading}`, url: abstractUrl });
+  }
+  if (data.AbstractText) candidates.push({ text: data.AbstractText, url: abstractUrl });
+  if (data.Abstract) candidates.push({ text: data.Abstract, url: abstractUrl });
+  if ((data as any).Answer) candidates.push({ text: (data as any).Answer as string, url: null });
+  if (data.Infobox?.content?.length) {
+    for (const item of data.Infobox.content) {
+      if (item?.value) {
+        candidates.push({
+          text: `${item.label ? `${item.label}: ` : ""}${item.value}`,
+          url: abstractUrl,
+        });
+      }
+    }
+  }
+  candidates.push(...extractRelatedTopics(data));
+
+  const snippets: SearchSnippet[] = [];
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    const sentence = ensureSentence(candidate.text);
+    if (!sentence) continue;
+    const key = sentence.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    snippets.push({ text: sentence, url: candidate.url });
+    if (snippets.length >= limit) break;
+  }
+  return snippets;
+}
+
+/** DuckDuckGo's Instant Answer API, asked each query's text. */
+export class DuckDuckGoProvider implements SearchProvider {
+  readonly kind = "duckduckgo" as const;
+  readonly readsQueryText = true;
+
+  search({ query, limit, signal }: SearchRequest) {
+    return fetchDuckDuckGoSnippets(query, limit, signal);
+  }
+}
@@ -0,0 +1,58 @@
+import { DuckDuckGoProvider } from "./duckduckgo";
+import { LocalFileProvider } from "./local-file";
+import type { SearchProvider, SearchProviderKind } from "./types";
+import { WikipediaProvider } from "./wikipedia";
+
+export * from "./types";
+export { fetchDuckDuckGoSnippets } from "./duckduckgo";
+export { ensureSentence, normalizeBlurb } from "./text";
+export { fetchWikipediaSummary, parseWikipediaUrl, type WikipediaSummary } from "./wikipedia";
+
+export const SEARCH_PROVIDER_KINDS: SearchProviderKind[] = ["duckduckgo", "wikipedia", "local"];
+
+/**
+ * Reads `SEARCH_PROVIDERS`, a comma-separated list that replaces every
+ * query's own providers, e.g. `local` for tests or `duckduckgo` to skip
+ * Wikipedia. Returns null when unset or when nothing in it is recognized.
+ */
+export function parseSearchProviders(value: string | undefined): SearchProviderKind[] | null {
+  const kinds: SearchProviderKind[] = [];
+  for (const entry of (value ?? "").split(",")) {
+    const kind = entry.trim().toLowerCase() as SearchProviderKind;
+    if (!kind) continue;
+    if (!SEARCH_PROVIDER_KINDS.includes(kind)) {
+      console.warn(`Ignoring unknown SEARCH_PROVIDERS entry: ${kind}`);
+      continue;
+    }
+    if (!kinds.includes(kind)) kinds.push(kind);
+  }
+  return kinds.length ? kinds : null;
+}
+
+export function createSearchProvider(
+  kind: SearchProviderKind,
+  env: NodeJS.ProcessEnv = process.env
+): SearchProvider {
+  switch (kind) {
+    case "wikipedia":
+      return new WikipediaProvider();
+    case "local":
+      return new LocalFileProvider(env.SEARCH_FIXTURE_PATH || undefined);
+    case "duckduckgo":
+    default:
+      return new DuckDuckGoProvider();
+  }
+}
+
+const override = parseSearchProviders(process.env.SEARCH_PROVIDERS);
+const providers: Partial<Record<SearchProviderKind, SearchProvider>> = {};
+
+/** The providers to ask, in order: `SEARCH_PROVIDERS` when set, else `configured`. */
+export function getSearchProviders(configured: SearchProviderKind[]) {
+  return (override ?? configured).map((kind) => {
+    if (!providers[kind]) {
+      providers[kind] = createSearchProvider(kind);
+    }
+    return providers[kind] as SearchProvider;
+  });
+}
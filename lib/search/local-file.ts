@@ -0,0 +1,33 @@
+import { readFile } from "fs/promises";
+
+import type { SearchProvider, SearchRequest, SearchSnippet } from "./types";
+
+type FixtureEntry = string | SearchSnippet;
+
+/**
+ * Offline provider for tests and demos. Answers from the JSON object at
+ * `SEARCH_FIXTURE_PATH`, keyed by query text or, failing that, by topic:
+ * `{ "economic_momentum": ["A sentence.", { "text": "…", "url": "…" }] }`.
+ * Queries with no entry get no answer.
+ */
+export class LocalFileProvider implements SearchProvider {
+  readonly kind = "local" as const;
+  readonly readsQueryText = true;
+
+  constructor(private readonly fixturePath?: string) {}
+
+  async search({ query, topic, limit }: SearchRequest) {
+    const fixture = await this.load();
+    const entries = fixture[query] ?? fixture[query.toLowerCase()] ?? fixture[topic] ?? [];
+    return entries
+      .map((entry) => (typeof entry === "string" ? { text: entry, url: null } : entry))
+      .filter((snippet) => typeof snippet?.text === "string" && snippet.text.trim())
+      .slice(0, limit);
+  }
+
+  // Read on every search so edits to the file show up at once.
+  private async load(): Promise<Record<string, FixtureEntry[]>> {
+    if (!this.fixturePath) return {};
+    return JSON.parse(await readFile(this.fixturePath, "utf8"));
+  }
+}
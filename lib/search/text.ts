@@ -0,0 +1,10 @@
+export function normalizeBlurb(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function ensureSentence(text: string) {
+  const trimmed = normalizeBlurb(text);
+  if (!trimmed) return "";
+  const clipped = trimmed.length > 220 ? `${trimmed.slice(0, 217).trim()}…` : trimmed;
+  return /[.!?]$/.test(clipped) ? clipped : `${clipped}.`;
+}
@@ -0,0 +1,46 @@
+/** One search result sentence and the page it came from, when known. */
+export type SearchSnippet = {
+  text: string;
+  url: string | null;
+};
+
+export type SearchProviderKind = "duckduckgo" | "wikipedia" | "local";
+
+/** How widely a query's answer applies; it picks the article a reader opens. */
+export type SearchScope = "state" | "city" | "zip";
+
+export type SearchLocation = {
+  city: string;
+  /** Two-letter postal code. */
+  state: string;
+  zip: string;
+  county: string | null;
+};
+
+export type SearchRequest = {
+  /** Resolved query text, e.g. "Major employers in Scottsdale, AZ". */
+  query: string;
+  scope: SearchScope;
+  location: SearchLocation;
+  /** What the query is about, e.g. a strategic bucket key. */
+  topic: string;
+  /** Article sections that answer the query, for providers that read articles. */
+  sections: string[];
+  limit: number;
+  /** Cancels the request; its reason is thrown. */
+  signal?: AbortSignal;
+};
+
+export interface SearchProvider {
+  readonly kind: SearchProviderKind;
+  /**
+   * Whether answers depend on the query text. Providers that don't (Wikipedia
+   * reads article sections) are asked once per topic instead of per query.
+   */
+  readonly readsQueryText: boolean;
+  /**
+   * Throws on outages so callers can tell a failed lookup from one with no
+   * answer.
+   */
+  search(request: SearchRequest): Promise<SearchSnippet[]>;
+}
@@ -0,0 +1,310 @@
+import { z } from "zod";
+
+import { MemoryLruStore } from "@/lib/cache";
+import { circuitBreaker } from "@/lib/circuit-breaker";
+import { CONTACT_USER_AGENT, fetchWithTimeout } from "@/lib/http";
+import { Singleflight } from "@/lib/singleflight";
+
+import { ensureSentence } from "./text";
+import type { SearchLocation, SearchProvider, SearchRequest, SearchSnippet } from "./types";
+
+/** The lead of a Wikipedia article, as plain text. */
+export type WikipediaSummary = {
+  title: string;
+  extract: string;
+  url: string;
+};
+
+class WikipediaStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`Wikipedia responded with status ${status}`);
+    this.name = "WikipediaStatusError";
+  }
+}
+
+// Only the fields we read. A response that does not fit is treated like an
+// outage rather than a missing article.
+const summaryResponseSchema = z.object({
+  type: z.string().optional(),
+  title: z.string().optional(),
+  extract: z.string().optional(),
+  content_urls: z.object({ desktop: z.object({ page: z.string().optional() }).optional() }).optional(),
+});
+
+const extractResponseSchema = z.object({
+  query: z
+    .object({
+      pages: z.array(
+        z.object({
+          title: z.string(),
+          missing: z.boolean().optional(),
+          extract: z.string().optional(),
+        })
+      ),
+    })
+    .optional(),
+});
+
+function parseResponse<T>(schema: z.ZodType<T>, data: unknown, what: string): T {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Wikipedia ${what} response had an unexpected shape: ${parsed.error.issues[0]?.message}`);
+  }
+  return parsed.data;
+}
+
+const summaryFlights = new Singleflight<WikipediaSummary | null>();
+
+/** Splits `https://en.wikipedia.org/wiki/Papago_Park` into its language and title. */
+export function parseWikipediaUrl(url: string) {
+  const match = url.match(/^https:\/\/([a-z-]+)\.wikipedia\.org\/wiki\/(.+)$/);
+  return match ? { lang: match[1], title: decodeURIComponent(match[2]) } : null;
+}
+
+// A missing article is an answer, not an outage.
+function isWikipediaFailure(error: unknown) {
+  return !(error instanceof WikipediaStatusError) || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Fetches the lead summary of a Wikipedia article from the REST API. Returns
+ * null for missing articles and disambiguation pages; throws on outages so
+ * callers can tell them apart. Identical concurrent lookups share a request.
+ */
+export function fetchWikipediaSummary(articleUrl: string, signal?: AbortSignal) {
+  const article = parseWikipediaUrl(articleUrl);
+  if (!article) {
+    return Promise.resolve(null);
+  }
+  return summaryFlights.run(
+    articleUrl,
+    (shared) =>
+      circuitBreaker("wikipedia")
+        .run(() => requestSummary(article.lang, article.title, shared), {
+          isFailure: isWikipediaFailure,
+        })
+        .catch((error) => {
+          if (error instanceof WikipediaStatusError && error.status === 404) return null;
+          throw error;
+        }),
+    signal
+  );
+}
+
+async function requestSummary(
+  lang: string,
+  title: string,
+  signal?: AbortSignal
+): Promise<WikipediaSummary | null> {
+  const response = await fetchWithTimeout(
+    `https://${lang}.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(title.replace(/ /g, "_"))}`,
+    {
+      headers: { Accept: "application/json", "User-Agent": CONTACT_USER_AGENT },
+      signal,
+    },
+    6000
+  );
+  if (!response.ok) {
+    throw new WikipediaStatusError(response.status);
+  }
+  const data = parseResponse(summaryResponseSchema, await response.json(), "summary");
+  if (data.type === "disambiguation" || !data.extract?.trim()) {
+    return null;
+  }
+  return {
+    title: data.title ?? title,
+    extract: data.extract.trim(),
+    url: data.content_urls?.desktop?.page ?? `https://${lang}.wikipedia.org/wiki/${encodeURIComponent(title)}`,
+  };
+}
+
+type ArticleSection = {
+  heading: string;
+  /** 1 for the lead, 2 for top-level sections, deeper for subsections. */
+  level: number;
+  text: string;
+};
+
+type Article = {
+  title: string;
+  url: string;
+  sections: ArticleSection[];
+};
+
+// Wikipedia titles states by name; a few need the disambiguated form.
+const STATE_ARTICLES: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California",
+  CO: "Colorado", CT: "Connecticut", DE: "Delaware", DC: "Washington, D.C.", FL: "Florida",
+  GA: "Georgia (U.S. state)", HI: "Hawaii", ID: "Idaho", IL: "Illinois", IN: "Indiana",
+  IA: "Iowa", KS: "Kansas", KY: "Kentucky", LA: "Louisiana", ME: "Maine",
+  MD: "Maryland", MA: "Massachusetts", MI: "Michigan", MN: "Minnesota", MS: "Mississippi",
+  MO: "Missouri", MT: "Montana", NE: "Nebraska", NV: "Nevada", NH: "New Hampshire",
+  NJ: "New Jersey", NM: "New Mexico", NY: "New York (state)", NC: "North Carolina",
+  ND: "North Dakota", OH: "Ohio", OK: "Oklahoma", OR: "Oregon", PA: "Pennsylvania",
+  PR: "Puerto Rico", RI: "Rhode Island", SC: "South Carolina", SD: "South Dakota",
+  TN: "Tennessee", TX: "Texas", UT: "Utah", VT: "Vermont", VA: "Virginia",
+  WA: "Washington (state)", WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming",
+};
+
+const stateName = (state: string) => STATE_ARTICLES[state.toUpperCase()]?.replace(/ \(.*\)$/, "") ?? state;
+
+/**
+ * The articles that describe a location: the state's for state-wide
+ * questions, otherwise the city's and then its county's. US places are
+ * titled "City, State"; redirects cover cities titled by name alone.
+ */
+export function articleTitles(location: SearchLocation, scope: SearchRequest["scope"]) {
+  const state = stateName(location.state);
+  if (scope === "state") {
+    const title = STATE_ARTICLES[location.state.toUpperCase()];
+    return title ? [title] : [];
+  }
+  const titles = location.city ? [`${location.city}, ${state}`] : [];
+  if (location.county) {
+    const suffix = /\b(County|Parish|Borough)$/i.test(location.county)
+      ? ""
+      : location.state.toUpperCase() === "LA"
+        ? " Parish"
+        : " County";
+    titles.push(`${location.county}${suffix}, ${state}`);
+  }
+  return titles;
+}
+
+// Articles are read by several buckets of one brief in quick succession.
+const ARTICLE_TTL_MS = 6 * 60 * 60 * 1000;
+const articleStore = new MemoryLruStore(100);
+const articleFlights = new Singleflight<Article | null>();
+
+async function fetchArticle(title: string, signal?: AbortSignal) {
+  const cached = await articleStore.get<Article | null>(title);
+  if (cached) return cached.value;
+  return articleFlights.run(
+    title,
+    async (shared) => {
+      const article = await circuitBreaker("wikipedia").run(() => requestArticle(title, shared), {
+        isFailure: isWikipediaFailure,
+      });
+      await articleStore.set(title, { value: article, storedAt: Date.now() }, ARTICLE_TTL_MS);
+      return article;
+    },
+    signal
+  );
+}
+
+async function requestArticle(title: string, signal?: AbortSignal): Promise<Article | null> {
+  const url = new URL("https://en.wikipedia.org/w/api.php");
+  url.searchParams.set("action", "query");
+  url.searchParams.set("format", "json");
+  url.searchParams.set("formatversion", "2");
+  url.searchParams.set("redirects", "1");
+  url.searchParams.set("prop", "extracts");
+  url.searchParams.set("explaintext", "1");
+  url.searchParams.set("exsectionformat", "wiki");
+  url.searchParams.set("titles", title);
+
+  const response = await fetchWithTimeout(
+    url.toString(),
+    { headers: { Accept: "application/json", "User-Agent": CONTACT_USER_AGENT }, signal },
+    8000
+  );
+  if (!response.ok) {
+    throw new WikipediaStatusError(response.status);
+  }
+  const data = parseResponse(extractResponseSchema, await response.json(), "extract");
+  const page = data.query?.pages[0];
+  if (!page || page.missing || page.extract === undefined) {
+    return null;
+  }
+  return {
+    title: page.title,
+    url: `https://en.wikipedia.org/wiki/${encodeURIComponent(page.title.replace(/ /g, "_"))}`,
+    sections: parseSections(page.extract),
+  };
+}
+
+// Plain-text extracts mark headings as "== Economy ==", deeper levels with
+// more equals signs.
+function parseSections(extract: string): ArticleSection[] {
+  const sections: ArticleSection[] = [{ heading: "", level: 1, text: "" }];
+  for (const line of extract.split("\n")) {
+    const heading = line.match(/^(={2,6})\s*(.*?)\s*\1\s*$/);
+    if (heading) {
+      sections.push({ heading: heading[2], level: heading[1].length, text: "" });
+    } else if (line.trim()) {
+      sections[sections.length - 1].text += `${line.trim()} `;
+    }
+  }
+  return sections;
+}
+
+const normalizeHeading = (heading: string) => heading.toLowerCase().replace(/[^a-z]+/g, " ").trim();
+
+// A wanted section matches any heading containing it ("Parks" matches "Parks
+// and recreation"), and brings its subsections along.
+function matchingSections(article: Article, wanted: string[]) {
+  const names = wanted.map(normalizeHeading);
+  const matched: ArticleSection[] = [];
+  let openLevel = 0;
+  for (const section of article.sections) {
+    if (openLevel && section.level > openLevel) {
+      matched.push(section);
+      continue;
+    }
+    openLevel = 0;
+    const heading = normalizeHeading(section.heading);
+    if (heading && names.some((name) => heading.includes(name))) {
+      matched.push(section);
+      openLevel = section.level;
+    }
+  }
+  return matched;
+}
+
+// Lists, captions and statistics read badly on a call.
+const isReadableSentence = (sentence: string) =>
+  sentence.length >= 40 && sentence.length <= 300 && !/\d{1,3}(,\d{3})+|\d+(\.\d+)?%/.test(sentence);
+
+function sectionSnippets(article: Article, wanted: string[]): SearchSnippet[][] {
+  return matchingSections(article, wanted).map((section) => {
+    const anchor = section.heading.replace(/ /g, "_");
+    return (section.text.match(/[^.!?]+[.!?]+(?=\s|$)/g) ?? [])
+      .map((sentence) => sentence.trim())
+      .filter(isReadableSentence)
+      .map((sentence) => ({ text: ensureSentence(sentence), url: `${article.url}#${anchor}` }));
+  });
+}
+
+/**
+ * Reads the sections a request names from the location's Wikipedia
+ * articles. Answers take the opening sentences of each matching section in
+ * turn, city article first, so one long section cannot fill the limit.
+ */
+export class WikipediaProvider implements SearchProvider {
+  readonly kind = "wikipedia" as const;
+  readonly readsQueryText = false;
+
+  async search({ location, scope, sections, limit, signal }: SearchRequest) {
+    if (!sections.length) return [];
+    const titles = articleTitles(location, scope);
+    const fetched = await Promise.allSettled(titles.map((title) => fetchArticle(title, signal)));
+    const failure = fetched.find((result) => result.status === "rejected");
+    if (failure && fetched.every((result) => result.status === "rejected")) {
+      throw (failure as PromiseRejectedResult).reason;
+    }
+
+    const queues: SearchSnippet[][] = [];
+    for (const result of fetched) {
+      if (result.status === "fulfilled" && result.value) {
+        queues.push(...sectionSnippets(result.value, sections));
+      }
+    }
+    const snippets: SearchSnippet[] = [];
+    for (let index = 0; snippets.length < limit && queues.some((queue) => index < queue.length); index += 1) {
+      for (const queue of queues) {
+        if (index < queue.length && snippets.length < limit) snippets.push(queue[index]);
+      }
+    }
+    return snippets;
+  }
+}
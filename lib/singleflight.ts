@@ -0,0 +1,72 @@
+type Flight<T> = {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting on the flight, or Infinity once one can't leave. */
+  waiting: number;
+};
+
+/**
+ * Collapses concurrent calls that share a key onto one in-flight promise.
+ * The entry is dropped as soon as the promise settles, so a rejection is
+ * delivered to the callers that were already waiting but never handed to
+ * later ones; the next call after a failure starts fresh.
+ *
+ * The shared task gets a signal of its own. A caller whose `signal` aborts
+ * is rejected with its reason at once, without disturbing the others; the
+ * task's signal only aborts once every caller has given up on it.
+ */
+export class Singleflight<T> {
+  private readonly inflight = new Map<string, Flight<T>>();
+
+  run(key: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    let flight = this.inflight.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const started: Flight<T> = {
+        promise: task(controller.signal).finally(() => this.forget(key, started)),
+        controller,
+        waiting: 0,
+      };
+      flight = started;
+      this.inflight.set(key, flight);
+    }
+    return this.follow(key, flight, signal);
+  }
+
+  get size() {
+    return this.inflight.size;
+  }
+
+  private follow(key: string, flight: Flight<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      // A caller without a signal never leaves, so the task runs to the end.
+      flight.waiting = Infinity;
+      return flight.promise;
+    }
+    flight.waiting += 1;
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        flight.waiting -= 1;
+        if (flight.waiting === 0) {
+          // Later callers start a fresh request rather than join a cancelled one.
+          this.forget(key, flight);
+          flight.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+      signal.addEventListener("abort", leave, { once: true });
+      flight.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", leave));
+    });
+  }
+
+  private forget(key: string, flight: Flight<T>) {
+    if (this.inflight.get(key) === flight) {
+      this.inflight.delete(key);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+export type ServerSentEvent = {
+  event: string;
+  data: string;
+};
+
+export function formatServerSentEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export type SendServerSentEvent = (event: string, data: unknown) => void;
+
+/**
+ * Wraps `produce` in a `text/event-stream` response. Events sent after the
+ * client disconnects are dropped; the stream closes once `produce` settles,
+ * so it should report its own failures as events rather than throw.
+ */
+export function eventStreamResponse(produce: (send: SendServerSentEvent) => Promise<void>) {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendServerSentEvent = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        await produce(send);
+      } catch (error) {
+        console.error("Event stream producer failed:", error);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Parses a `text/event-stream` body into events. Works with both browser and
+ * Node fetch responses; comments and `id`/`retry` fields are ignored.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    }
+    return data.length ? { event, data: data.join("\n") } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+        const parsed = parseBlock(block);
+        if (parsed) yield parsed;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+    const trailing = parseBlock(buffer + decoder.decode());
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,6 +1,13 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // The ZIP gazetteer and compliance rules are read from disk at runtime, so
+    // ship them with the API routes.
+    outputFileTracingIncludes: {
+      "/api/**/*": ["./data/**/*", "./config/**/*"],
+    },
+  },
 };
 
 module.exports = nextConfig;
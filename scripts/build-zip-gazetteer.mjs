@@ -0,0 +1,338 @@
+#!/usr/bin/env node
+/**
+ * Builds data/zip-gazetteer.json from public source files.
+ *
+ *   npm run gazetteer:build -- --geonames US.txt [--zcta-gazetteer 2020_Gaz_zcta_national.txt]
+ *     [--cbsa cbsa-delineation.csv] [--places zip-places.csv] [--timezones zip-timezones.csv]
+ *     [--version 2024.1] [--out path]
+ *
+ * Sources:
+ *   --geonames        GeoNames US postal codes (https://download.geonames.org/export/zip/US.zip).
+ *                     Supplies place names, state, county name + county FIPS and a centroid.
+ *   --zcta-gazetteer  Census ZCTA gazetteer (https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html).
+ *                     Optional; replaces centroids with Census internal points.
+ *   --cbsa            OMB CBSA delineation file saved as CSV (columns "CBSA Code", "CBSA Title",
+ *                     "FIPS State Code", "FIPS County Code"). Optional; adds metro areas by county.
+ *   --places          CSV with "zip" and "city" columns listing every name a ZIP is filed under,
+ *                     such as USPS acceptable city names. Optional; GeoNames has one name per
+ *                     ZIP, so without it `alternate_names` stays empty.
+ *   --timezones       Optional "zip,timezone" CSV. Without it, each ZIP gets its county's zone
+ *                     in the split states listed below and its state's zone elsewhere.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+const FORMAT_VERSION = 1;
+const FIELDS = [
+  "zip",
+  "city",
+  "alternate_names",
+  "state",
+  "county",
+  "county_fips",
+  "cbsa_code",
+  "cbsa_name",
+  "timezone",
+  "latitude",
+  "longitude",
+];
+
+// State FIPS code and predominant IANA time zone.
+const STATES = {
+  AL: ["01", "America/Chicago"],
+  AK: ["02", "America/Anchorage"],
+  AZ: ["04", "America/Phoenix"],
+  AR: ["05", "America/Chicago"],
+  CA: ["06", "America/Los_Angeles"],
+  CO: ["08", "America/Denver"],
+  CT: ["09", "America/New_York"],
+  DE: ["10", "America/New_York"],
+  DC: ["11", "America/New_York"],
+  FL: ["12", "America/New_York"],
+  GA: ["13", "America/New_York"],
+  HI: ["15", "Pacific/Honolulu"],
+  ID: ["16", "America/Boise"],
+  IL: ["17", "America/Chicago"],
+  IN: ["18", "America/Indiana/Indianapolis"],
+  IA: ["19", "America/Chicago"],
+  KS: ["20", "America/Chicago"],
+  KY: ["21", "America/New_York"],
+  LA: ["22", "America/Chicago"],
+  ME: ["23", "America/New_York"],
+  MD: ["24", "America/New_York"],
+  MA: ["25", "America/New_York"],
+  MI: ["26", "America/Detroit"],
+  MN: ["27", "America/Chicago"],
+  MS: ["28", "America/Chicago"],
+  MO: ["29", "America/Chicago"],
+  MT: ["30", "America/Denver"],
+  NE: ["31", "America/Chicago"],
+  NV: ["32", "America/Los_Angeles"],
+  NH: ["33", "America/New_York"],
+  NJ: ["34", "America/New_York"],
+  NM: ["35", "America/Denver"],
+  NY: ["36", "America/New_York"],
+  NC: ["37", "America/New_York"],
+  ND: ["38", "America/Chicago"],
+  OH: ["39", "America/New_York"],
+  OK: ["40", "America/Chicago"],
+  OR: ["41", "America/Los_Angeles"],
+  PA: ["42", "America/New_York"],
+  RI: ["44", "America/New_York"],
+  SC: ["45", "America/New_York"],
+  SD: ["46", "America/Chicago"],
+  TN: ["47", "America/Chicago"],
+  TX: ["48", "America/Chicago"],
+  UT: ["49", "America/Denver"],
+  VT: ["50", "America/New_York"],
+  VA: ["51", "America/New_York"],
+  WA: ["53", "America/Los_Angeles"],
+  WV: ["54", "America/New_York"],
+  WI: ["55", "America/Chicago"],
+  WY: ["56", "America/Denver"],
+  PR: ["72", "America/Puerto_Rico"],
+};
+
+// Counties on a different clock from the rest of their state, by state and
+// three-digit county FIPS code. Counties that are split themselves, such as
+// Gulf, FL or Cherry, NE, keep the state's zone.
+const SPLIT_STATE_COUNTIES = {
+  // The panhandle west of the Apalachicola River.
+  FL: { "America/Chicago": ["005", "013", "033", "059", "063", "091", "113", "131", "133"] },
+  // The panhandle north of the Salmon River.
+  ID: {
+    "America/Los_Angeles": ["009", "017", "021", "035", "049", "055", "057", "061", "069", "079"],
+  },
+  // The Chicago and Evansville areas.
+  IN: {
+    "America/Chicago": ["051", "073", "089", "091", "111", "127", "129", "147", "163", "173"],
+    "America/Indiana/Knox": ["149"],
+    "America/Indiana/Tell_City": ["123"],
+  },
+  KS: { "America/Denver": ["071", "075", "181", "199"] },
+  // Western Kentucky.
+  KY: {
+    "America/Chicago": [
+      "001", "003", "007", "009", "027", "031", "033", "035", "039", "047", "053", "055", "057",
+      "059", "061", "075", "083", "085", "087", "091", "099", "101", "105", "107", "139", "141",
+      "143", "145", "149", "157", "169", "171", "177", "183", "207", "213", "219", "221", "225",
+      "227", "233",
+    ],
+  },
+  // The Upper Peninsula counties bordering Wisconsin.
+  MI: { "America/Menominee": ["043", "053", "071", "109"] },
+  // The panhandle and the southwest.
+  NE: {
+    "America/Denver": [
+      "005", "007", "013", "029", "033", "045", "049", "057", "069", "075", "091", "101", "105",
+      "123", "135", "157", "161", "165",
+    ],
+  },
+  ND: { "America/Denver": ["001", "007", "011", "033", "037", "041", "087", "089"] },
+  OR: { "America/Boise": ["045"] },
+  // West of the Missouri River.
+  SD: {
+    "America/Denver": [
+      "007", "019", "031", "033", "041", "047", "055", "063", "071", "081", "093", "102", "103",
+      "105", "137",
+    ],
+  },
+  // East Tennessee.
+  TN: {
+    "America/New_York": [
+      "001", "009", "011", "013", "019", "025", "029", "057", "059", "063", "065", "067", "073",
+      "089", "091", "093", "105", "107", "121", "123", "129", "139", "143", "145", "151", "155",
+      "163", "171", "173", "179",
+    ],
+  },
+  TX: { "America/Denver": ["141", "229"] },
+};
+
+function countyTimezone(state, countyFips) {
+  const zones = SPLIT_STATE_COUNTIES[state];
+  if (!zones || !countyFips) return null;
+  const county = countyFips.slice(2);
+  const match = Object.entries(zones).find(([, counties]) => counties.includes(county));
+  return match ? match[0] : null;
+}
+
+// USPS files spell names in capitals; GeoNames uses title case.
+function titleCase(name) {
+  return name === name.toUpperCase()
+    ? name.toLowerCase().replace(/\b([a-z])/g, (letter) => letter.toUpperCase())
+    : name;
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (let index = 0; index < argv.length; index += 1) {
+    const flag = argv[index];
+    if (!flag.startsWith("--")) continue;
+    args[flag.slice(2)] = argv[index + 1];
+    index += 1;
+  }
+  return args;
+}
+
+function parseCsvLine(line) {
+  const cells = [];
+  let current = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map((cell) => cell.trim());
+}
+
+function readLines(file) {
+  return readFileSync(file, "utf8").split(/\r?\n/).filter((line) => line.trim().length > 0);
+}
+
+function readCsv(file) {
+  const [header, ...rows] = readLines(file);
+  const columns = parseCsvLine(header);
+  return rows.map((line) => {
+    const cells = parseCsvLine(line);
+    return Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""]));
+  });
+}
+
+function round(value) {
+  return Math.round(value * 10000) / 10000;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.geonames) {
+    console.error("Missing --geonames <US.txt>. See the header of this script for sources.");
+    process.exit(1);
+  }
+
+  const records = new Map();
+  for (const line of readLines(args.geonames)) {
+    const [, zip, place, , stateCode, countyName, countyCode, , , lat, lon] = line.split("\t");
+    if (!/^\d{5}$/.test(zip ?? "") || !STATES[stateCode]) continue;
+    const existing = records.get(zip);
+    if (existing) {
+      if (place && place !== existing.city && !existing.alternate_names.includes(place)) {
+        existing.alternate_names.push(place);
+      }
+      continue;
+    }
+    const [stateFips, stateTimezone] = STATES[stateCode];
+    const countyFips = countyCode ? `${stateFips}${countyCode.padStart(3, "0")}` : null;
+    records.set(zip, {
+      zip,
+      city: place,
+      alternate_names: [],
+      state: stateCode,
+      county: countyName || null,
+      county_fips: countyFips,
+      cbsa_code: null,
+      cbsa_name: null,
+      timezone: countyTimezone(stateCode, countyFips) ?? stateTimezone,
+      latitude: round(Number.parseFloat(lat)),
+      longitude: round(Number.parseFloat(lon)),
+    });
+  }
+
+  if (args["zcta-gazetteer"]) {
+    const [header, ...rows] = readLines(args["zcta-gazetteer"]);
+    const columns = header.split("\t").map((column) => column.trim());
+    const zipIndex = columns.indexOf("GEOID");
+    const latIndex = columns.indexOf("INTPTLAT");
+    const lonIndex = columns.indexOf("INTPTLONG");
+    for (const line of rows) {
+      const cells = line.split("\t").map((cell) => cell.trim());
+      const record = records.get(cells[zipIndex]);
+      const lat = Number.parseFloat(cells[latIndex]);
+      const lon = Number.parseFloat(cells[lonIndex]);
+      if (record && Number.isFinite(lat) && Number.isFinite(lon)) {
+        record.latitude = round(lat);
+        record.longitude = round(lon);
+      }
+    }
+  }
+
+  if (args.cbsa) {
+    const byCounty = new Map();
+    for (const row of readCsv(args.cbsa)) {
+      const state = row["FIPS State Code"]?.padStart(2, "0");
+      const county = row["FIPS County Code"]?.padStart(3, "0");
+      if (!state || !county || !row["CBSA Code"]) continue;
+      byCounty.set(`${state}${county}`, [row["CBSA Code"], row["CBSA Title"] || null]);
+    }
+    for (const record of records.values()) {
+      const match = record.county_fips ? byCounty.get(record.county_fips) : null;
+      if (match) {
+        [record.cbsa_code, record.cbsa_name] = match;
+      }
+    }
+  }
+
+  if (args.places) {
+    for (const row of readCsv(args.places)) {
+      const record = records.get(row.zip?.padStart(5, "0"));
+      const name = row.city ? titleCase(row.city) : "";
+      if (!record || !name) continue;
+      const known = [record.city, ...record.alternate_names].map((entry) => entry.toLowerCase());
+      if (!known.includes(name.toLowerCase())) {
+        record.alternate_names.push(name);
+      }
+    }
+  }
+
+  if (args.timezones) {
+    for (const row of readCsv(args.timezones)) {
+      const record = records.get(row.zip);
+      if (record && row.timezone) {
+        record.timezone = row.timezone;
+      }
+    }
+  }
+
+  const rows = [...records.values()]
+    .filter((record) => Number.isFinite(record.latitude) && Number.isFinite(record.longitude))
+    .sort((a, b) => a.zip.localeCompare(b.zip))
+    .map((record) => FIELDS.map((field) => record[field]));
+
+  const output = {
+    format_version: FORMAT_VERSION,
+    dataset_version: args.version || new Date().toISOString().slice(0, 10),
+    generated_at: new Date().toISOString(),
+    sources: {
+      geonames: path.basename(args.geonames),
+      ...(args["zcta-gazetteer"] ? { zcta_gazetteer: path.basename(args["zcta-gazetteer"]) } : {}),
+      ...(args.cbsa ? { cbsa: path.basename(args.cbsa) } : {}),
+      ...(args.places ? { places: path.basename(args.places) } : {}),
+      ...(args.timezones ? { timezones: path.basename(args.timezones) } : {}),
+    },
+    fields: FIELDS,
+    rows,
+  };
+
+  const out = path.resolve(args.out || path.join(process.cwd(), "data", "zip-gazetteer.json"));
+  mkdirSync(path.dirname(out), { recursive: true });
+  writeFileSync(out, JSON.stringify(output));
+  console.log(`Wrote ${rows.length} ZIPs (dataset ${output.dataset_version}) to ${out}`);
+}
+
+main();